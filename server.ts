@@ -0,0 +1,1133 @@
+import { createServer } from 'http';
+import crypto from 'crypto';
+import { parse } from 'url';
+import next from 'next';
+import { Server, type Socket } from 'socket.io';
+import type {
+    ClientToServerEvents,
+    LeaveReason,
+    NewQueueItem,
+    Participant,
+    QueueItem,
+    QueuePolicyViolation,
+    RoomEventData,
+    RoomSnapshot,
+    ServerToClientEvents,
+    SocketError,
+} from './src/shared/protocol';
+import type { RoomService } from './src/utils/roomService';
+import type { ImportedQueueItem } from './src/utils/queueFile';
+import { getPlaylistImportLimit } from './src/utils/playlist';
+import { getRecommendationSource } from './src/utils/recommendations';
+import { createRoom, createRoomStore, MAX_PLAYLISTS, type Room } from './server/roomStore';
+import { createEventLog } from './server/eventLog';
+import { applyEvent, createEvent, getRoomContent, replayEvents } from './server/roomEvents';
+import { getNextIndex, interleaveByContributor, isValidClip, sortByUpvotes } from './src/shared/queue';
+import { getPlaybackPosition, getHeartbeat } from './server/playbackClock';
+import { getPlayLength } from './server/playLength';
+import { mergeSettings } from './server/roomSettings';
+import { checkQueuePolicy, describeRejection, type PolicyCandidate } from './server/queuePolicy';
+import {
+    claimSession,
+    createSession,
+    markConnected,
+    markDisconnected,
+    removeParticipant,
+    getStaleParticipants,
+} from './server/sessions';
+import { isHost, ensureHost, transferHost, banParticipant, isBanned } from './server/roles';
+import { configureAccess, createInvite, isLocked, checkAccess } from './server/roomAccess';
+import { validateEvent } from './server/eventSchemas';
+import { getRateLimitConfig, createRateLimiter } from './server/rateLimit';
+import { createPubSub } from './server/pubsub';
+import { createPubSubAdapter } from './server/socketAdapter';
+
+// Per-socket state, reset when the socket leaves or is kicked
+interface SocketData {
+    roomId: string | null;
+    participantId: string | null;
+    clientId: string | null;
+}
+
+type RoomSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const port = parseInt(process.env.PORT || '3000', 10);
+const heartbeatInterval = parseInt(process.env.PLAYER_HEARTBEAT_MS || '5000', 10);
+const resumeGracePeriod = parseInt(process.env.RESUME_GRACE_MS || '30000', 10);
+const roomIdleTtl = parseInt(process.env.ROOM_IDLE_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+const expiredRoomTtl = parseInt(process.env.EXPIRED_ROOM_TTL_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+const rateLimitConfig = getRateLimitConfig();
+const playlistImportLimit = getPlaylistImportLimit();
+
+// Radio mode: videos queued per top-up, the recently played videos they're
+// based on, and who they show as added by
+const RADIO_BATCH = 5;
+const RADIO_SEEDS = 3;
+const RADIO_NAME = 'Radio';
+
+const app = next({ dev, hostname: 'localhost', port });
+const handle = app.getRequestHandler();
+
+// Transport to the other server instances, if there are any (see
+// server/pubsub.ts, selected with CLUSTER_PUBSUB)
+const pubsub = createPubSub();
+
+// Room state storage (see server/roomStore.ts, selected with ROOM_STORE, or
+// shared through `pubsub`)
+const roomStore = createRoomStore(process.env, pubsub);
+
+// History of every room's changes (see server/roomEvents.ts)
+const eventLog = createEventLog(process.env, pubsub);
+
+// Number of idle rooms evicted since the server started
+let evictedRoomCount = 0;
+
+// Adds to a room's queue within its queue policies and tells the room; set
+// once the socket server is up
+let appendToRoomQueue: ((roomId: string, items: Omit<QueueItem, 'id' | 'addedAt'>[]) => Promise<{
+    added: number;
+    violation: QueuePolicyViolation | null;
+}>) | null = null;
+
+function getRoom(roomId: string): Room {
+    let room = roomStore.get(roomId);
+    if (!room) {
+        room = createRoom();
+        roomStore.set(roomId, room);
+    }
+    return room;
+}
+
+// Apply a change to the room and add it to the room's event log
+function recordEvent(roomId: string, room: Room, data: RoomEventData, by: string | null) {
+    const event = createEvent(data, by);
+    applyEvent(room, event);
+    eventLog.append(roomId, event);
+    roomStore.save(roomId);
+}
+
+// Snapshot of the room sent to a participant when they (re)join
+function getRoomSnapshot(room: Room): RoomSnapshot {
+    return {
+        participants: room.participants,
+        queue: room.queue,
+        messages: room.messages,
+        votes: Array.from(room.votes),
+        upvotes: room.upvotes,
+        currentVideoIndex: room.currentVideoIndex,
+        playerState: room.playerState,
+        currentTime: getPlaybackPosition(room),
+        settings: room.settings,
+        isLocked: isLocked(room),
+        history: room.history,
+        playlists: room.playlists,
+        importLimit: playlistImportLimit,
+    };
+}
+
+// Room operations for the Next.js API routes. They run in this process but
+// in their own module graph, so they reach the store through globalThis.
+const roomService: RoomService = {
+    async createRoom(roomId, { password, inviteOnly, inviteCount, inviteTtlMs } = {}) {
+        const room = createRoom();
+        const invites = await configureAccess(room, { password, inviteOnly, inviteCount, inviteTtlMs });
+        roomStore.set(roomId, room);
+        return { invites, isLocked: isLocked(room) };
+    },
+
+    getRoomInfo(roomId) {
+        const room = roomStore.get(roomId);
+        if (!room) return null;
+
+        const currentVideo = room.queue[room.currentVideoIndex];
+        return {
+            roomId,
+            participantCount: room.participants.length,
+            currentVideo: currentVideo
+                ? { videoId: currentVideo.videoId, title: currentVideo.title, thumbnail: currentVideo.thumbnail }
+                : null,
+            queueLength: room.queue.length,
+            createdAt: room.createdAt,
+            lastActiveAt: room.lastActiveAt,
+            isLocked: isLocked(room),
+        };
+    },
+
+    getExpiredAt(roomId) {
+        return roomStore.getExpiredAt(roomId) ?? null;
+    },
+
+    getWatchHistory(roomId) {
+        return roomStore.get(roomId)?.history ?? null;
+    },
+
+    getQueue(roomId) {
+        return roomStore.get(roomId)?.queue ?? null;
+    },
+
+    async importQueue(roomId, items: ImportedQueueItem[]) {
+        if (!roomStore.get(roomId)) return { error: 'Room not found', status: 404 };
+        if (!appendToRoomQueue) return { error: 'The socket server is starting', status: 503 };
+        if (items.length > playlistImportLimit) {
+            return { error: `At most ${playlistImportLimit} videos can be imported at once`, status: 400 };
+        }
+
+        // Items keep who added them in the room they were exported from, and
+        // count towards that name's pending limit
+        const { added, violation } = await appendToRoomQueue(
+            roomId, items.map(item => ({ ...item, addedBy: item.addedBy || 'Import' })),
+        );
+        console.log(`Imported ${added} of ${items.length} videos into the queue of room ${roomId}`);
+        if (!violation) return { added };
+
+        const refused = items.length - added;
+        return {
+            added,
+            rejection: { message: describeRejection(violation, refused, items.length), violation, videos: refused },
+        };
+    },
+
+    async getRoomHistory(roomId, untilId) {
+        if (!roomStore.get(roomId)) return null;
+        const events = await eventLog.read(roomId);
+        if (!untilId) return { events };
+
+        const content = replayEvents(events, untilId);
+        return content ? { events, content } : null;
+    },
+
+    getStats() {
+        let activeRooms = 0;
+        let participants = 0;
+        for (const [, room] of roomStore.entries()) {
+            activeRooms++;
+            participants += room.participants.length;
+        }
+        return { activeRooms, participants, evictedRooms: evictedRoomCount };
+    },
+};
+(globalThis as { hangoutRooms?: RoomService }).hangoutRooms = roomService;
+
+Promise.all([app.prepare(), roomStore.load()]).then(() => {
+    const httpServer = createServer((req, res) => {
+        const parsedUrl = parse(req.url || '/', true);
+        handle(req, res, parsedUrl);
+    });
+
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
+        path: '/api/socket',
+        cors: {
+            origin: '*',
+            methods: ['GET', 'POST'],
+        },
+    });
+
+    // Broadcasts and socket lookups reach every instance through the adapter
+    if (pubsub) {
+        io.adapter(createPubSubAdapter(pubsub));
+    }
+
+    // Every socket of a participant also joins this socket.io room, so they
+    // can be found and kicked whichever instance they are connected to
+    function participantChannel(participantId: string): string {
+        return `participant:${participantId}`;
+    }
+
+    async function hasConnectedSocket(participantId: string): Promise<boolean> {
+        const sockets = await io.in(participantChannel(participantId)).fetchSockets();
+        return sockets.length > 0;
+    }
+
+    // Take a socket out of its room without touching the participant list
+    function detachSocket(socket: RoomSocket) {
+        const { roomId, participantId } = socket.data;
+        if (roomId) socket.leave(roomId);
+        if (participantId) socket.leave(participantChannel(participantId));
+        socket.data.roomId = null;
+        socket.data.participantId = null;
+    }
+
+    // Tell a client why its event was refused
+    function emitError(socket: RoomSocket, code: SocketError['code'], message: string, event: string) {
+        socket.emit('error', { code, message, event });
+    }
+
+    function requireHost(socket: RoomSocket, room: Room, event: string): boolean {
+        if (isHost(room, socket.data.participantId)) return true;
+        emitError(socket, 'forbidden', 'Only the host can do that', event);
+        return false;
+    }
+
+    // Announce the video that just started, which the last event added to the watch history
+    function broadcastPlayed(roomId: string, room: Room) {
+        const entry = room.history[room.history.length - 1];
+        if (entry) {
+            io.to(roomId).emit('room:history-added', entry);
+        }
+    }
+
+    // Add items to the end of the queue with a single update to the room
+    function appendToQueue(roomId: string, room: Room, items: Omit<QueueItem, 'id' | 'addedAt'>[], by: string | null) {
+        const lastPlayed = room.history.at(-1);
+        const addedAt = Date.now();
+        for (const fields of items) {
+            const item = { ...fields, id: crypto.randomUUID(), addedAt };
+            recordEvent(roomId, room, { type: 'queue-added', item }, by);
+        }
+        io.to(roomId).emit('queue:updated', room.queue);
+        // Added to an empty queue, the first video starts right away
+        if (room.history.at(-1) !== lastPlayed) broadcastPlayed(roomId, room);
+        refreshQueueOrder(roomId, room);
+    }
+
+    // Add items to the end of the queue, leaving out videos the room's queue
+    // policies refuse. Returns how many were added and the first refusal.
+    async function appendAllowedItems(roomId: string, items: Omit<QueueItem, 'id' | 'addedAt'>[], by: string | null) {
+        const checkLength = getRoom(roomId).settings.queue.maxDurationMinutes > 0;
+        const playLengths = await Promise.all(items.map(item => checkLength ? getPlayLength(item) : null));
+
+        // Look the room up again, it may have changed during the lookups
+        const room = roomStore.get(roomId);
+        if (!room) return { added: 0, violation: null };
+
+        const accepted: PolicyCandidate[] = [];
+        const passed: Omit<QueueItem, 'id' | 'addedAt'>[] = [];
+        let violation: QueuePolicyViolation | null = null;
+        items.forEach((item, index) => {
+            const candidate = { videoId: item.videoId, title: item.title, addedBy: item.addedBy, addedById: item.addedById, playLength: playLengths[index] };
+            const broken = checkQueuePolicy(room, candidate, accepted);
+            if (broken) {
+                violation ??= broken;
+                return;
+            }
+            accepted.push(candidate);
+            passed.push(item);
+        });
+
+        if (passed.length > 0) appendToQueue(roomId, room, passed, by);
+        return { added: passed.length, violation };
+    }
+    appendToRoomQueue = (roomId, items) => appendAllowedItems(roomId, items, null);
+
+    // Add what a participant queued within the room's queue policies; the
+    // first refusal is sent back to them. Returns how many videos were added.
+    async function appendWithinPolicies(socket: RoomSocket, roomId: string, items: NewQueueItem[], addedBy: string, event: string): Promise<number> {
+        const { added, violation } = await appendAllowedItems(
+            roomId, items.map(fields => ({ ...fields, addedBy, addedById: socket.data.participantId ?? undefined })), socket.data.participantId,
+        );
+
+        if (added === 0) {
+            // Take back the videos the client already put in its own queue
+            const room = roomStore.get(roomId);
+            if (room) socket.emit('queue:updated', room.queue);
+        }
+        if (violation) {
+            const refused = items.length - added;
+            const message = describeRejection(violation, refused, items.length);
+            socket.emit('error', { code: 'queue-policy', message, event, rejection: { violation, videos: refused } });
+        }
+        return added;
+    }
+
+    // Refuse an add outright; the client already put the videos in its own
+    // queue, so it gets the room's queue back
+    function refuseQueueAdd(socket: RoomSocket, room: Room, message: string, event: string) {
+        emitError(socket, 'out-of-range', message, event);
+        socket.emit('queue:updated', room.queue);
+    }
+
+    function broadcastHostChanges(roomId: string, room: Room, participantIds: string[]) {
+        for (const participantId of participantIds) {
+            const participant = room.participants.find(p => p.id === participantId);
+            if (participant) {
+                io.to(roomId).emit('room:participant-updated', {
+                    id: participantId,
+                    updates: { isHost: participant.isHost },
+                });
+            }
+        }
+    }
+
+    // The queue in the order the room's settings ask for; null in 'manual' order
+    function getSortedQueue(room: Room): QueueItem[] | null {
+        switch (room.settings.queue.order) {
+            case 'votes':
+                return sortByUpvotes(room.queue, room.currentVideoIndex, room.upvotes);
+            case 'round-robin':
+                // Participants are kept in the order they joined
+                return interleaveByContributor(room.queue, room.currentVideoIndex, room.participants.map(p => p.id));
+            default:
+                return null;
+        }
+    }
+
+    // Rooms fetching recommendations, so each room only asks once at a time
+    const radioRefills = new Map<string, Promise<void>>();
+
+    // Radio mode: once nothing is waiting after the current video, queue
+    // videos related to what the room played last
+    function topUpRadio(roomId: string, room: Room): Promise<void> {
+        const pending = radioRefills.get(roomId);
+        if (pending) return pending;
+        if (room.settings.playback.mode !== 'radio' || room.queue.length > room.currentVideoIndex + 1) return Promise.resolve();
+        const seeds = room.history.slice(-RADIO_SEEDS);
+        if (seeds.length === 0) return Promise.resolve();
+
+        const exclude = new Set([...room.queue, ...room.history].map(item => item.videoId));
+        const refill = getRecommendationSource().recommend(seeds, RADIO_BATCH, exclude)
+            .then(videos => {
+                // Look the room up again, it may have changed while waiting
+                const current = roomStore.get(roomId);
+                if (!current || current.settings.playback.mode !== 'radio' || videos.length === 0) return;
+                appendToQueue(roomId, current, videos.map(video => ({ ...video, addedBy: RADIO_NAME, autoAdded: true })), null);
+                console.log(`Radio added ${videos.length} videos to room ${roomId}`);
+            })
+            .catch(err => console.error(`Radio failed to find videos for room ${roomId}:`, err))
+            .finally(() => radioRefills.delete(roomId));
+        radioRefills.set(roomId, refill);
+        return refill;
+    }
+
+    // Re-sort the upcoming videos after anything that may have changed their
+    // order, and keep a radio going
+    function refreshQueueOrder(roomId: string, room: Room) {
+        topUpRadio(roomId, room);
+        const sorted = getSortedQueue(room);
+        if (!sorted || sorted.every((item, index) => item.id === room.queue[index].id)) return;
+        recordEvent(roomId, room, { type: 'queue-sorted', itemIds: sorted.map(item => item.id) }, null);
+        io.to(roomId).emit('queue:reordered', { queue: room.queue, currentVideoIndex: room.currentVideoIndex });
+    }
+
+    // Send the queue's upvotes after anything that may have changed them
+    function refreshUpvotes(roomId: string, room: Room) {
+        io.to(roomId).emit('queue:upvotes-updated', room.upvotes);
+        refreshQueueOrder(roomId, room);
+    }
+
+    // Play the video at `index` for everyone from the start of its clip (the
+    // current one again when repeating); votes to skip start over
+    function playVideo(roomId: string, room: Room, index: number) {
+        recordEvent(roomId, room, { type: 'video-changed', index }, null);
+        const videoTime = room.queue[index].startAt ?? 0;
+        recordEvent(roomId, room, { type: 'playback-changed', playerState: 'playing', videoTime }, null);
+        recordEvent(roomId, room, { type: 'votes-cleared' }, null);
+
+        io.to(roomId).emit('queue:video-changed', index);
+        io.to(roomId).emit('room:votes-updated', []);
+        broadcastPlayed(roomId, room);
+        refreshUpvotes(roomId, room);
+        io.to(roomId).emit('player:sync', {
+            action: 'play',
+            videoTime,
+            serverTime: Date.now(),
+            initiator: 'system',
+        });
+    }
+
+    // Go on to the next video as the room's playback mode has it; false at
+    // the end of the queue
+    function playNext(roomId: string, room: Room): boolean {
+        const mode = room.settings.playback.mode;
+        const next = getNextIndex(room.queue.length, room.currentVideoIndex, mode);
+        if (next === null) return false;
+
+        if (mode === 'shuffle') {
+            const upcoming = room.queue.slice(room.currentVideoIndex + 1);
+            const pick = upcoming[Math.floor(Math.random() * upcoming.length)];
+            recordEvent(roomId, room, { type: 'queue-moved', itemId: pick.id, toIndex: next }, null);
+            io.to(roomId).emit('queue:reordered', { queue: room.queue, currentVideoIndex: room.currentVideoIndex });
+        }
+        playVideo(roomId, room, next);
+        return true;
+    }
+
+    // Remove participants, notify the room and hand off the host role if needed
+    function removeFromRoom(roomId: string, participantIds: string[], reason: LeaveReason, by: string | null = null) {
+        const room = getRoom(roomId);
+        for (const participantId of participantIds) {
+            removeParticipant(room, participantId);
+            recordEvent(roomId, room, { type: 'participant-left', participantId, reason }, by);
+            io.to(roomId).emit('room:participant-left', participantId);
+        }
+        io.to(roomId).emit('room:votes-updated', Array.from(room.votes));
+        refreshUpvotes(roomId, room);
+
+        const newHostId = ensureHost(room);
+        if (newHostId) {
+            broadcastHostChanges(roomId, room, [newHostId]);
+        }
+        roomStore.save(roomId);
+    }
+
+    function kickParticipant(roomId: string, participantId: string, reason: 'kicked' | 'banned', by: string | null) {
+        const channel = participantChannel(participantId);
+        io.to(channel).emit('room:kicked', { reason });
+        io.in(channel).socketsLeave([roomId, channel]);
+        removeFromRoom(roomId, [participantId], reason, by);
+    }
+
+    // Nobody is connected right after a restart; give everyone the grace period
+    // to come back before dropping them. Participants connected to another
+    // instance are kept by the check in the grace sweep below.
+    for (const [roomId, room] of roomStore.entries()) {
+        for (const participant of room.participants) {
+            markDisconnected(room, participant.id);
+        }
+        roomStore.save(roomId);
+    }
+
+    io.on('connection', (socket) => {
+        console.log('Client connected:', socket.id);
+        // Room and participant this socket has joined, also reset by kicks
+        socket.data.roomId = null;
+        socket.data.participantId = null;
+        socket.data.clientId = null;
+
+        // Refuse floods before doing any other work (see server/rateLimit.ts)
+        const rateLimiter = createRateLimiter(rateLimitConfig);
+        socket.use(([event], next) => {
+            let limited: ReturnType<typeof rateLimiter.check>;
+            try {
+                limited = rateLimiter.check(event);
+            } catch (err) {
+                // A throwing middleware would take the whole process down
+                console.error(`Failed to rate-limit ${event}:`, err);
+                return;
+            }
+            if (limited) {
+                // Someone joining only waits for the join's outcome
+                if (event === 'room:join') {
+                    socket.emit('room:join-rejected', { reason: 'throttled', message: limited.message });
+                } else {
+                    emitError(socket, limited.code, limited.message, event);
+                }
+                return;
+            }
+            next();
+        });
+
+        // Every payload is checked against its schema (server/eventSchemas.ts)
+        // and replaced with the sanitized copy before a handler sees it
+        socket.use((packet, next) => {
+            const [event, payload] = packet;
+            const result = validateEvent(event, payload);
+            if (result.error) {
+                emitError(socket, result.code, result.error, event);
+                return;
+            }
+            packet[1] = result.value;
+            next();
+        });
+
+        // Any event addressed to a room counts as activity in it. Events for
+        // rooms that don't exist are dropped; only room:join creates rooms.
+        // Other room events must come from a socket that joined that room.
+        socket.use(([event, payload], next) => {
+            const roomId = payload && typeof payload.roomId === 'string' ? payload.roomId : null;
+            if (!roomId) return next();
+
+            const room = roomStore.get(roomId);
+            if (room) {
+                if (event !== 'room:join' && !socket.rooms.has(roomId)) {
+                    emitError(socket, 'not-in-room', 'Join the room first', event);
+                    return;
+                }
+                room.lastActiveAt = Date.now();
+                return next();
+            }
+            if (roomStore.getExpiredAt(roomId)) {
+                socket.emit('room:expired', { roomId });
+                return;
+            }
+            if (event === 'room:join') {
+                return next();
+            }
+        });
+
+        // Clock sync: answer with receive/send timestamps so the client can
+        // estimate its clock offset and round-trip time
+        socket.on('time:ping', (clientTime, ack) => {
+            const serverReceiveTime = Date.now();
+            if (typeof ack === 'function') {
+                ack({ clientTime, serverReceiveTime, serverSendTime: Date.now() });
+            }
+        });
+
+        // Join room
+        socket.on('room:join', async ({ roomId, participant: profile, resumeToken, clientId, password, inviteToken }) => {
+            const room = getRoom(roomId);
+
+            // Reclaim the participant slot if the resume token is still valid
+            let participantId = claimSession(room, resumeToken);
+
+            if (isBanned(room, { participantId, clientId })) {
+                socket.emit('room:join-rejected', {
+                    reason: 'banned',
+                    message: 'You have been banned from this room.',
+                });
+                return;
+            }
+
+            // Resumed sessions already passed the access check
+            const isResumed = Boolean(participantId);
+            if (!isResumed) {
+                const denied = await checkAccess(room, { password, inviteToken });
+                if (denied) {
+                    socket.emit('room:join-rejected', denied);
+                    return;
+                }
+            }
+
+            let participant: Participant;
+            let sessionToken: string;
+            if (participantId && resumeToken) {
+                participant = room.participants.find(p => p.id === participantId)!;
+                Object.assign(participant, profile);
+                sessionToken = resumeToken;
+            } else {
+                participantId = crypto.randomUUID();
+                sessionToken = createSession(room, participantId);
+                participant = { ...profile, id: participantId, isHost: false };
+                room.participants.push(participant);
+                ensureHost(room);
+                recordEvent(roomId, room, { type: 'participant-joined', participant }, participantId);
+            }
+            markConnected(room, participantId);
+
+            socket.data.roomId = roomId;
+            socket.data.participantId = participantId;
+            socket.data.clientId = clientId || null;
+            socket.join([roomId, participantChannel(participantId)]);
+
+            roomStore.save(roomId);
+
+            // Send current room state to new participant
+            socket.emit('room:joined', { ...getRoomSnapshot(room), self: participant, resumeToken: sessionToken });
+            socket.emit('player:heartbeat', getHeartbeat(room));
+
+            // Notify others (a resumed participant is already in their list)
+            if (isResumed) {
+                socket.to(roomId).emit('room:participant-updated', { id: participantId, updates: participant });
+            } else {
+                socket.to(roomId).emit('room:participant-joined', participant);
+            }
+            // A returning or renamed participant may take a different turn
+            refreshQueueOrder(roomId, room);
+
+            console.log(`Participant ${participant.name} joined room ${roomId}`);
+        });
+
+        // Leave room
+        socket.on('room:leave', () => {
+            const { roomId, participantId } = socket.data;
+            if (roomId && participantId) {
+                detachSocket(socket);
+                removeFromRoom(roomId, [participantId], 'left', participantId);
+            }
+        });
+
+        // Update participant (the schema only lets profile fields through,
+        // never the host role)
+        socket.on('participant:update', ({ roomId, updates }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (participant) {
+                Object.assign(participant, updates);
+                roomStore.save(roomId);
+                io.to(roomId).emit('room:participant-updated', {
+                    id: participant.id,
+                    updates,
+                });
+            }
+        });
+
+        // Host: hand the host role to another participant
+        socket.on('room:transfer-host', ({ roomId, participantId }) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'room:transfer-host')) return;
+
+            const changed = transferHost(room, participantId);
+            if (changed.length > 0) {
+                roomStore.save(roomId);
+                broadcastHostChanges(roomId, room, changed);
+            }
+        });
+
+        // Host: remove a participant from the room
+        socket.on('room:kick', ({ roomId, participantId }) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'room:kick') || participantId === socket.data.participantId) return;
+            if (!room.participants.some(p => p.id === participantId)) return;
+
+            kickParticipant(roomId, participantId, 'kicked', socket.data.participantId);
+        });
+
+        // Host: remove a participant and keep them from rejoining
+        socket.on('room:ban', async ({ roomId, participantId }) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'room:ban') || participantId === socket.data.participantId) return;
+            if (!room.participants.some(p => p.id === participantId)) return;
+
+            // The target may be connected to another instance; its client ID
+            // comes along with the socket
+            const [targetSocket] = await io.in(participantChannel(participantId)).fetchSockets();
+
+            // Look the room up again, it may have changed while waiting
+            const current = roomStore.get(roomId);
+            const participant = current?.participants.find(p => p.id === participantId);
+            if (!current || !participant) return;
+
+            banParticipant(current, participant, targetSocket?.data.clientId);
+            kickParticipant(roomId, participantId, 'banned', socket.data.participantId);
+            console.log(`Participant ${participant.name} banned from room ${roomId}`);
+        });
+
+        // Host: create an invite link for a locked room
+        socket.on('room:create-invite', ({ roomId }, ack) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'room:create-invite') || typeof ack !== 'function') return;
+
+            const invite = createInvite(room);
+            roomStore.save(roomId);
+            ack(invite);
+        });
+
+        // Update room settings (host only)
+        socket.on('room:update-settings', ({ roomId, settings }) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'room:update-settings')) return;
+
+            room.settings = mergeSettings(room.settings, settings);
+            roomStore.save(roomId);
+            io.to(roomId).emit('room:settings-updated', room.settings);
+            refreshUpvotes(roomId, room);
+        });
+
+        // Host: put the queue, playback, chat and votes back to how they were
+        // right after an earlier event in the room's log
+        socket.on('room:restore', async ({ roomId, eventId }) => {
+            if (!requireHost(socket, getRoom(roomId), 'room:restore')) return;
+
+            const events = await eventLog.read(roomId);
+            const target = events.find(event => event.id === eventId);
+            const content = replayEvents(events, eventId);
+            if (!target || !content) {
+                emitError(socket, 'not-found', 'That event is not in the room history', 'room:restore');
+                return;
+            }
+
+            // Look the room up again, it may have changed while reading the log
+            const room = roomStore.get(roomId);
+            if (!room) return;
+
+            // Carry on from where the video was at that point; voting starts over
+            recordEvent(roomId, room, {
+                type: 'restored',
+                eventId,
+                content: {
+                    ...content,
+                    currentTime: getPlaybackPosition(content, target.at),
+                    playbackUpdatedAt: Date.now(),
+                    votes: [],
+                },
+            }, socket.data.participantId);
+
+            const { queue, messages, votes, upvotes, currentVideoIndex, playerState } = getRoomContent(room);
+            const currentTime = getPlaybackPosition(room);
+            io.to(roomId).emit('room:restored', { queue, messages, votes, upvotes, currentVideoIndex, playerState, currentTime });
+            refreshUpvotes(roomId, room);
+            io.to(roomId).emit('player:sync', {
+                action: playerState === 'playing' ? 'play' : 'pause',
+                videoTime: currentTime,
+                serverTime: Date.now(),
+                initiator: 'system',
+            });
+            console.log(`Room ${roomId} restored to event ${eventId}`);
+        });
+
+        // Player actions (play, pause, seek)
+        socket.on('player:action', ({ roomId, action, videoTime }) => {
+            const room = getRoom(roomId);
+
+            // Update room state
+            const playerState = action === 'play' ? 'playing' : action === 'pause' ? 'paused' : undefined;
+            recordEvent(roomId, room, { type: 'playback-changed', playerState, videoTime }, socket.data.participantId);
+
+            // Broadcast to all participants (including sender for confirmation)
+            io.to(roomId).emit('player:sync', {
+                action,
+                videoTime,
+                serverTime: Date.now(),
+                initiator: socket.id,
+            });
+
+            console.log(`Player ${action} at ${videoTime}s in room ${roomId}`);
+        });
+
+        // A client's video reached its end; the first report moves the room on
+        // as its playback mode says, later ones find the video changed. Only
+        // reports that agree with the room's clock, at a point where the video
+        // (or its clip) is over, count, so they can't be used to skip a video.
+        socket.on('player:ended', async ({ roomId, index }) => {
+            const { settings, queue, currentVideoIndex } = getRoom(roomId);
+            const mode = settings.playback.mode;
+            const item = queue[index];
+            if (mode === 'manual' || !item || index !== currentVideoIndex) return;
+
+            // Videos of unknown length can only be skipped by vote
+            const playLength = await getPlayLength(item);
+            if (playLength === null) return;
+
+            // Look the room up again, it may have changed during the lookup
+            const room = roomStore.get(roomId);
+            if (!room || room.queue[room.currentVideoIndex]?.id !== item.id) return;
+            // The room's own clock decides, so a report from a client that lags
+            // behind still ends the video once the room has played it through.
+            // Clients are kept within the hard-seek threshold of that clock;
+            // reports about a video that was already restarted come too early
+            const position = getPlaybackPosition(room);
+            if (position + room.settings.sync.seekThreshold < (item.startAt ?? 0) + playLength) return;
+
+            if (mode === 'repeat-one') {
+                playVideo(roomId, room, index);
+            } else if (!playNext(roomId, room) && mode === 'radio') {
+                // The radio hadn't found anything yet; play what it finds
+                await topUpRadio(roomId, room);
+                const current = roomStore.get(roomId);
+                if (current?.currentVideoIndex === index) playNext(roomId, current);
+            }
+        });
+
+        // Add to queue; the server assigns the item ID and who added it
+        socket.on('queue:add', async ({ roomId, item: fields }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (!participant) return;
+            if (!isValidClip(fields)) {
+                refuseQueueAdd(socket, room, 'A clip has to end after it starts', 'queue:add');
+                return;
+            }
+
+            if (await appendWithinPolicies(socket, roomId, [fields], participant.name, 'queue:add')) {
+                console.log(`Added to queue in room ${roomId}:`, fields.title);
+            }
+        });
+
+        // Add several videos in one go, in the order given
+        socket.on('queue:add-many', async ({ roomId, items }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (!participant) return;
+            if (items.length > playlistImportLimit) {
+                refuseQueueAdd(socket, room, `At most ${playlistImportLimit} videos can be added at once`, 'queue:add-many');
+                return;
+            }
+            if (!items.every(isValidClip)) {
+                refuseQueueAdd(socket, room, 'A clip has to end after it starts', 'queue:add-many');
+                return;
+            }
+
+            const added = await appendWithinPolicies(socket, roomId, items, participant.name, 'queue:add-many');
+            console.log(`Added ${added} videos to queue in room ${roomId}`);
+        });
+
+        // Save the queue as a named playlist; saving under an existing name
+        // (in any case) overwrites that playlist
+        socket.on('playlist:save', ({ roomId, name }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (!participant) return;
+            const trimmed = name.trim();
+            if (!trimmed) {
+                emitError(socket, 'invalid-payload', 'A playlist needs a name', 'playlist:save');
+                return;
+            }
+            if (room.queue.length === 0) {
+                emitError(socket, 'not-found', 'There is nothing in the queue to save', 'playlist:save');
+                return;
+            }
+
+            const existing = room.playlists.findIndex(playlist => playlist.name.toLowerCase() === trimmed.toLowerCase());
+            if (existing === -1 && room.playlists.length >= MAX_PLAYLISTS) {
+                emitError(socket, 'out-of-range', `A room can keep at most ${MAX_PLAYLISTS} playlists`, 'playlist:save');
+                return;
+            }
+
+            const playlist = {
+                id: existing === -1 ? crypto.randomUUID() : room.playlists[existing].id,
+                name: trimmed,
+                items: room.queue,
+                savedBy: participant.name,
+                savedAt: Date.now(),
+            };
+            room.playlists = existing === -1
+                ? [...room.playlists, playlist]
+                : room.playlists.map((saved, index) => index === existing ? playlist : saved);
+            roomStore.save(roomId);
+            io.to(roomId).emit('room:playlists-updated', room.playlists);
+            console.log(`Saved playlist "${trimmed}" in room ${roomId}`);
+        });
+
+        // Load a saved playlist after the queue, or (host) in its place
+        socket.on('playlist:load', async ({ roomId, playlistId, mode }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (!participant) return;
+            const playlist = room.playlists.find(saved => saved.id === playlistId);
+            if (!playlist) {
+                emitError(socket, 'not-found', 'That playlist no longer exists', 'playlist:load');
+                return;
+            }
+
+            if (mode === 'append') {
+                // Items get new IDs, so the same playlist can be loaded twice.
+                // They count as queued by whoever loads them.
+                const items = playlist.items.map(({ videoId, title, thumbnail, duration, startAt, endAt }) => (
+                    { videoId, title, thumbnail, duration, startAt, endAt }
+                ));
+                const added = await appendWithinPolicies(socket, roomId, items, participant.name, 'playlist:load');
+                console.log(`Added ${added} videos from playlist "${playlist.name}" in room ${roomId}`);
+                return;
+            }
+
+            if (!requireHost(socket, room, 'playlist:load')) return;
+            const addedAt = Date.now();
+            const queue = playlist.items.map(item => ({ ...item, id: crypto.randomUUID(), addedAt }));
+            recordEvent(roomId, room, { type: 'queue-replaced', queue }, participant.id);
+
+            io.to(roomId).emit('queue:updated', room.queue);
+            io.to(roomId).emit('queue:video-changed', room.currentVideoIndex);
+            broadcastPlayed(roomId, room);
+            refreshUpvotes(roomId, room);
+            io.to(roomId).emit('player:sync', {
+                action: room.playerState === 'playing' ? 'play' : 'pause',
+                videoTime: getPlaybackPosition(room),
+                serverTime: Date.now(),
+                initiator: 'system',
+            });
+            console.log(`Replaced queue in room ${roomId} with playlist "${playlist.name}"`);
+        });
+
+        // Host: forget a saved playlist
+        socket.on('playlist:delete', ({ roomId, playlistId }) => {
+            const room = getRoom(roomId);
+            if (!requireHost(socket, room, 'playlist:delete')) return;
+            if (!room.playlists.some(playlist => playlist.id === playlistId)) return;
+
+            room.playlists = room.playlists.filter(playlist => playlist.id !== playlistId);
+            roomStore.save(roomId);
+            io.to(roomId).emit('room:playlists-updated', room.playlists);
+        });
+
+        // Remove from queue
+        socket.on('queue:remove', ({ roomId, itemId }) => {
+            const room = getRoom(roomId);
+            recordEvent(roomId, room, { type: 'queue-removed', itemId }, socket.data.participantId);
+            io.to(roomId).emit('queue:updated', room.queue);
+            refreshUpvotes(roomId, room);
+        });
+
+        // Move a queue item; the video that is playing keeps playing
+        socket.on('queue:move', ({ roomId, itemId, toIndex }) => {
+            const room = getRoom(roomId);
+            if (room.settings.queue.order !== 'manual') {
+                const message = room.settings.queue.order === 'votes'
+                    ? 'The queue is ordered by upvotes'
+                    : 'The queue takes turns between contributors';
+                emitError(socket, 'forbidden', message, 'queue:move');
+                return;
+            }
+            if (toIndex >= room.queue.length) {
+                emitError(socket, 'out-of-range', `There is no position ${toIndex + 1} in the queue`, 'queue:move');
+                return;
+            }
+            if (!room.queue.some(item => item.id === itemId)) return;
+
+            recordEvent(roomId, room, { type: 'queue-moved', itemId, toIndex }, socket.data.participantId);
+            io.to(roomId).emit('queue:reordered', { queue: room.queue, currentVideoIndex: room.currentVideoIndex });
+        });
+
+        // Set or clear the part of a video that plays
+        socket.on('queue:set-clip', ({ roomId, itemId, startAt, endAt }) => {
+            const room = getRoom(roomId);
+            if (!room.queue.some(item => item.id === itemId)) return;
+            if (!isValidClip({ startAt, endAt })) {
+                emitError(socket, 'out-of-range', 'A clip has to end after it starts', 'queue:set-clip');
+                return;
+            }
+
+            recordEvent(roomId, room, { type: 'queue-clip-changed', itemId, startAt, endAt }, socket.data.participantId);
+            io.to(roomId).emit('queue:updated', room.queue);
+
+            // The video that is playing starts over from its new start
+            if (room.queue[room.currentVideoIndex]?.id === itemId) {
+                const videoTime = startAt ?? 0;
+                recordEvent(roomId, room, { type: 'playback-changed', videoTime }, socket.data.participantId);
+                io.to(roomId).emit('player:sync', {
+                    action: 'seek',
+                    videoTime,
+                    serverTime: Date.now(),
+                    initiator: 'system',
+                });
+            }
+        });
+
+        // Upvote an upcoming video, or take the upvote back
+        socket.on('queue:upvote', ({ roomId, itemId, upvote }) => {
+            const room = getRoom(roomId);
+            const participantId = socket.data.participantId;
+            if (!participantId) return;
+            if (room.settings.queue.order !== 'votes') {
+                emitError(socket, 'forbidden', 'Upvoting is off in this room', 'queue:upvote');
+                return;
+            }
+            // Only videos that haven't played yet can be upvoted
+            const index = room.queue.findIndex(item => item.id === itemId);
+            if (index <= room.currentVideoIndex) return;
+
+            recordEvent(roomId, room, { type: upvote ? 'upvote-added' : 'upvote-removed', itemId, participantId }, participantId);
+            refreshUpvotes(roomId, room);
+        });
+
+        // Change current video
+        socket.on('queue:change-video', ({ roomId, index }) => {
+            const room = getRoom(roomId);
+            if (index >= room.queue.length) {
+                emitError(socket, 'out-of-range', `There is no video at position ${index + 1}`, 'queue:change-video');
+                return;
+            }
+            recordEvent(roomId, room, { type: 'video-changed', index }, socket.data.participantId);
+            io.to(roomId).emit('queue:video-changed', index);
+            broadcastPlayed(roomId, room);
+            refreshUpvotes(roomId, room);
+        });
+
+        // Chat messages; sender, ID and timestamp come from the server
+        socket.on('chat:send', ({ roomId, content }) => {
+            const room = getRoom(roomId);
+            const participant = room.participants.find(p => p.id === socket.data.participantId);
+            if (!participant) return;
+
+            const message = {
+                id: crypto.randomUUID(),
+                senderId: participant.id,
+                senderName: participant.name,
+                content,
+                timestamp: Date.now(),
+            };
+            recordEvent(roomId, room, { type: 'chat-message', message }, participant.id);
+
+            io.to(roomId).emit('chat:message', message);
+        });
+
+        // Vote to skip/next
+        socket.on('vote:next', ({ roomId }) => {
+            const room = getRoom(roomId);
+            if (!socket.data.participantId) return;
+
+            // Add vote
+            recordEvent(roomId, room, { type: 'vote-added', participantId: socket.data.participantId }, socket.data.participantId);
+
+            // Broadcast updated votes
+            io.to(roomId).emit('room:votes-updated', Array.from(room.votes));
+
+            // Check consensus (all participants must vote)
+            if (room.votes.size >= room.participants.length) {
+                // Consensus reached! At the end of the queue (unless it
+                // repeats) there is nothing to skip to, so just clear votes
+                if (!playNext(roomId, room)) {
+                    recordEvent(roomId, room, { type: 'votes-cleared' }, null);
+                    io.to(roomId).emit('room:votes-updated', []);
+                }
+            }
+        });
+
+        // Handle disconnection: keep the participant around for the grace
+        // period so a refresh or flaky connection can resume the session
+        socket.on('disconnect', async () => {
+            console.log('Client disconnected:', socket.id);
+            const { roomId, participantId } = socket.data;
+            if (!roomId || !participantId || await hasConnectedSocket(participantId)) return;
+
+            // Kicked participants are already gone
+            const room = roomStore.get(roomId);
+            if (room?.participants.some(p => p.id === participantId)) {
+                markDisconnected(room, participantId);
+                roomStore.save(roomId);
+            }
+        });
+    });
+
+    // Periodically broadcast the authoritative playback position so late
+    // joiners and drifting clients can resync. Each instance only sends it to
+    // its own sockets.
+    setInterval(() => {
+        const now = Date.now();
+        for (const [roomId, room] of roomStore.entries()) {
+            if (io.sockets.adapter.rooms.has(roomId)) {
+                io.local.to(roomId).emit('player:heartbeat', getHeartbeat(room, now));
+            }
+        }
+    }, heartbeatInterval);
+
+    // Drop participants that didn't come back within the grace period
+    setInterval(async () => {
+        const now = Date.now();
+        for (const [roomId, room] of Array.from(roomStore.entries())) {
+            for (const participantId of getStaleParticipants(room, resumeGracePeriod, now)) {
+                const isConnected = await hasConnectedSocket(participantId);
+
+                // Look the room up again, it may have changed while waiting
+                const current = roomStore.get(roomId);
+                if (!current?.disconnectedAt[participantId]) continue;
+
+                if (isConnected) {
+                    markConnected(current, participantId);
+                    roomStore.save(roomId);
+                } else {
+                    removeFromRoom(roomId, [participantId], 'timed-out');
+                }
+            }
+        }
+    }, Math.min(resumeGracePeriod, 5000));
+
+    // Evict rooms that have been empty and idle for longer than the TTL.
+    // Rooms with saved playlists are kept, as the playlists live in the room.
+    setInterval(() => {
+        const now = Date.now();
+        for (const [roomId, room] of Array.from(roomStore.entries())) {
+            if (room.participants.length > 0 || now - room.lastActiveAt < roomIdleTtl) continue;
+            if (room.playlists.length > 0) continue;
+
+            roomStore.expire(roomId, now);
+            eventLog.delete(roomId);
+            evictedRoomCount++;
+            const idleMinutes = Math.round((now - room.lastActiveAt) / 60000);
+            console.log(`Evicted idle room ${roomId} (idle ${idleMinutes} min, ${evictedRoomCount} evicted total)`);
+        }
+        roomStore.pruneExpired(now - expiredRoomTtl);
+    }, Math.min(roomIdleTtl, 60000));
+
+    httpServer
+        .once('error', (err) => {
+            console.error(err);
+            process.exit(1);
+        })
+        .listen(port, () => {
+            console.log(`> Ready on port ${port}`);
+        });
+
+    // Write pending room state before the process goes away
+    for (const signal of ['SIGINT', 'SIGTERM']) {
+        process.once(signal, () => {
+            Promise.all([roomStore.flush(), eventLog.flush()])
+                .then(() => pubsub?.close())
+                .finally(() => process.exit(0));
+        });
+    }
+}).catch((err) => {
+    console.error('Failed to start the server:', err);
+    process.exit(1);
+});
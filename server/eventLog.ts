@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import type { RoomEvent } from '../src/shared/protocol';
+import type { PubSub } from './pubsub';
+import { trimEvents } from './roomEvents';
+
+/**
+ * Append-only log of room events (see server/roomEvents.ts)
+ *
+ * Appends are fire-and-forget like room store saves; reading is async so the
+ * log can live outside the process. A room's log is deleted with the room.
+ * Logs kept by this process are trimmed once they grow past MAX_LOG_EVENTS.
+ */
+export interface EventLog {
+    append(roomId: string, event: RoomEvent): void;
+    // Events of the room, oldest first
+    read(roomId: string): Promise<RoomEvent[]>;
+    delete(roomId: string): void;
+    // Write pending events before shutdown
+    flush(): Promise<void>;
+}
+
+// Events a room's log may hold; past that the oldest are folded together
+// until TRIMMED_LOG_EVENTS are left, so trimming doesn't happen on every append
+const MAX_LOG_EVENTS = 5000;
+const TRIMMED_LOG_EVENTS = 4000;
+
+// In-memory log: events are lost when the process exits
+export function createMemoryEventLog(): EventLog {
+    const logs = new Map<string, RoomEvent[]>();
+
+    return {
+        append: (roomId, event) => {
+            const log = logs.get(roomId) || [];
+            // Copy, so later changes to objects the event refers to don't rewrite history
+            log.push(JSON.parse(JSON.stringify(event)));
+            logs.set(roomId, log.length > MAX_LOG_EVENTS ? trimEvents(log, TRIMMED_LOG_EVENTS) : log);
+        },
+        read: async (roomId) => [...(logs.get(roomId) || [])],
+        delete: (roomId) => {
+            logs.delete(roomId);
+        },
+        flush: async () => { },
+    };
+}
+
+// File-backed log: one file per room with one JSON event per line. Like the
+// file room store, appends are buffered and written shortly after.
+export function createFileEventLog(dirPath: string, { writeDelay = 500 } = {}): EventLog {
+    // Lines not written yet, per room
+    const pending = new Map<string, string[]>();
+    // Events in each room's file, once known
+    const counts = new Map<string, number>();
+    let writeTimer: ReturnType<typeof setTimeout> | null = null;
+    // Writes run one at a time, so a room's file is never appended to while
+    // it is rewritten or deleted
+    let writing: Promise<void> = Promise.resolve();
+
+    function filePath(roomId: string): string {
+        return path.join(dirPath, `${encodeURIComponent(roomId)}.jsonl`);
+    }
+
+    async function readFile(roomId: string): Promise<RoomEvent[]> {
+        try {
+            const data = await fs.promises.readFile(filePath(roomId), 'utf8');
+            return data.split('\n').filter(Boolean).map(line => JSON.parse(line));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw err;
+        }
+    }
+
+    async function writeRoom(roomId: string, lines: string[]) {
+        await fs.promises.mkdir(dirPath, { recursive: true });
+        await fs.promises.appendFile(filePath(roomId), lines.join(''));
+
+        const known = counts.get(roomId);
+        let count = known === undefined ? (await readFile(roomId)).length : known + lines.length;
+        if (count > MAX_LOG_EVENTS) {
+            // Write to a temp file first so a crash mid-write can't lose the log
+            const events = trimEvents(await readFile(roomId), TRIMMED_LOG_EVENTS);
+            const tmpPath = `${filePath(roomId)}.tmp`;
+            await fs.promises.writeFile(tmpPath, events.map(event => JSON.stringify(event) + '\n').join(''));
+            await fs.promises.rename(tmpPath, filePath(roomId));
+            count = events.length;
+        }
+        counts.set(roomId, count);
+    }
+
+    function write(): Promise<void> {
+        if (writeTimer) {
+            clearTimeout(writeTimer);
+            writeTimer = null;
+        }
+
+        const batch = Array.from(pending);
+        pending.clear();
+        writing = writing.then(async () => {
+            for (const [roomId, lines] of batch) {
+                try {
+                    await writeRoom(roomId, lines);
+                } catch (err) {
+                    console.error(`Failed to append to the event log of room ${roomId}:`, err);
+                }
+            }
+        });
+        return writing;
+    }
+
+    function scheduleWrite() {
+        if (!writeTimer) {
+            writeTimer = setTimeout(write, writeDelay);
+        }
+    }
+
+    return {
+        append: (roomId, event) => {
+            const lines = pending.get(roomId) || [];
+            // Serialized now, so later changes to objects the event refers to don't rewrite history
+            lines.push(JSON.stringify(event) + '\n');
+            pending.set(roomId, lines);
+            scheduleWrite();
+        },
+        read: async (roomId) => {
+            // Events still waiting to be written are part of the log too
+            await write();
+            return readFile(roomId);
+        },
+        delete: (roomId) => {
+            pending.delete(roomId);
+            counts.delete(roomId);
+            writing = writing.then(() => fs.promises.rm(filePath(roomId), { force: true })).catch((err) => {
+                console.error(`Failed to delete the event log of room ${roomId}:`, err);
+            });
+        },
+        flush: async () => {
+            await write();
+        },
+    };
+}
+
+const EVENTS_KEY = 'hangout:events:';
+
+// Log shared by several server instances, kept in the pub/sub transport's lists
+export function createSharedEventLog(pubsub: PubSub): EventLog {
+    const pendingWrites = new Set<Promise<unknown>>();
+
+    function track(promise: Promise<unknown>) {
+        const tracked = promise
+            .catch(err => console.error('Failed to write to the shared event log:', err))
+            .finally(() => pendingWrites.delete(tracked));
+        pendingWrites.add(tracked);
+    }
+
+    return {
+        append: (roomId, event) => {
+            track(pubsub.append(EVENTS_KEY + roomId, JSON.stringify(event)));
+        },
+        read: async (roomId) => {
+            const entries = await pubsub.range(EVENTS_KEY + roomId);
+            return entries.map(entry => JSON.parse(entry));
+        },
+        delete: (roomId) => {
+            track(pubsub.delete(EVENTS_KEY + roomId));
+        },
+        flush: async () => {
+            await Promise.all(pendingWrites);
+        },
+    };
+}
+
+/**
+ * Create the log that goes with the room store: shared when there is a
+ * pub/sub transport, otherwise in memory for ROOM_STORE=memory or in
+ * ROOM_EVENT_LOG_PATH ('data/events' by default).
+ */
+export function createEventLog(env: NodeJS.ProcessEnv = process.env, pubsub: PubSub | null = null): EventLog {
+    if (pubsub) {
+        return createSharedEventLog(pubsub);
+    }
+    if (env.ROOM_STORE === 'memory') {
+        return createMemoryEventLog();
+    }
+    return createFileEventLog(env.ROOM_EVENT_LOG_PATH || path.join(process.cwd(), 'data', 'events'));
+}
@@ -0,0 +1,179 @@
+import type { ClientEventName, SocketError } from '../src/shared/protocol';
+
+/**
+ * Payload schemas for every client-to-server socket event
+ *
+ * Each schema is a function that takes an untrusted value and returns
+ * `{ value }` with a sanitized copy (unknown object keys are dropped) or
+ * `{ error }` describing the first problem found.
+ */
+
+type SchemaResult = { value: unknown; error?: undefined } | { value?: undefined; error: string };
+type Schema = (value: unknown, path: string) => SchemaResult;
+
+function string({ min = 0, max = 1000, pattern }: { min?: number; max?: number; pattern?: RegExp } = {}): Schema {
+    return (value, path) => {
+        if (typeof value !== 'string') return { error: `${path} must be a string` };
+        if (value.length < min) return { error: `${path} must be at least ${min} characters` };
+        if (value.length > max) return { error: `${path} must be at most ${max} characters` };
+        if (pattern && !pattern.test(value)) return { error: `${path} has an invalid format` };
+        return { value };
+    };
+}
+
+function number({ min = -Infinity, max = Infinity, integer = false } = {}): Schema {
+    return (value, path) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return { error: `${path} must be a number` };
+        if (integer && !Number.isInteger(value)) return { error: `${path} must be an integer` };
+        if (value < min || value > max) return { error: `${path} must be between ${min} and ${max}` };
+        return { value };
+    };
+}
+
+function boolean(): Schema {
+    return (value, path) => {
+        if (typeof value !== 'boolean') return { error: `${path} must be a boolean` };
+        return { value };
+    };
+}
+
+function oneOf(options: string[]): Schema {
+    return (value, path) => {
+        if (typeof value !== 'string' || !options.includes(value)) return { error: `${path} must be one of ${options.join(', ')}` };
+        return { value };
+    };
+}
+
+function optional(schema: Schema): Schema {
+    return (value, path) => (value === undefined || value === null ? { value: undefined } : schema(value, path));
+}
+
+function object(shape: Record<string, Schema>): Schema {
+    return (value, path) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return { error: `${path} must be an object` };
+        }
+        const result: Record<string, unknown> = {};
+        for (const [key, schema] of Object.entries(shape)) {
+            const field = schema((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+            if (field.error) return field;
+            if (field.value !== undefined) result[key] = field.value;
+        }
+        return { value: result };
+    };
+}
+
+function array(schema: Schema, { min = 0, max = 100 } = {}): Schema {
+    return (value, path) => {
+        if (!Array.isArray(value)) return { error: `${path} must be an array` };
+        if (value.length < min || value.length > max) {
+            return { error: `${path} must have between ${min} and ${max} items` };
+        }
+        const result: unknown[] = [];
+        for (const [index, item] of value.entries()) {
+            const field = schema(item, `${path}[${index}]`);
+            if (field.error) return field;
+            result.push(field.value);
+        }
+        return { value: result };
+    };
+}
+
+// Settings are clamped field by field in roomSettings.ts; only the shape is checked here
+function plainObject(): Schema {
+    return (value, path) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return { error: `${path} must be an object` };
+        }
+        return { value };
+    };
+}
+
+const roomId = string({ min: 1, max: 128 });
+const id = string({ min: 1, max: 128 });
+const videoId = string({ pattern: /^[a-zA-Z0-9_-]{11}$/ });
+const videoTime = number({ min: 0, max: 7 * 24 * 60 * 60 });
+
+const queueItem = object({
+    videoId,
+    title: string({ min: 1, max: 200 }),
+    thumbnail: string({ max: 500 }),
+    duration: optional(string({ max: 20 })),
+    startAt: optional(videoTime),
+    endAt: optional(videoTime),
+});
+
+// Events whose payload is not an object with a roomId
+const rawEvents = new Set<string>(['time:ping']);
+
+// Typed by event name so adding an event to the protocol without a schema
+// fails to compile
+const schemas: Record<ClientEventName, Schema> = {
+    'time:ping': number({ min: 0 }),
+    'room:join': object({
+        roomId,
+        participant: object({
+            name: string({ min: 1, max: 50 }),
+            isMuted: boolean(),
+            isCameraOff: boolean(),
+        }),
+        resumeToken: optional(string({ max: 128 })),
+        clientId: optional(string({ max: 128 })),
+        password: optional(string({ max: 128 })),
+        inviteToken: optional(string({ max: 128 })),
+    }),
+    'room:leave': object({ roomId }),
+    'participant:update': object({
+        roomId,
+        updates: object({
+            name: optional(string({ min: 1, max: 50 })),
+            isMuted: optional(boolean()),
+            isCameraOff: optional(boolean()),
+        }),
+    }),
+    'room:transfer-host': object({ roomId, participantId: id }),
+    'room:kick': object({ roomId, participantId: id }),
+    'room:ban': object({ roomId, participantId: id }),
+    'room:create-invite': object({ roomId }),
+    'room:update-settings': object({ roomId, settings: plainObject() }),
+    'room:restore': object({ roomId, eventId: id }),
+    'player:action': object({
+        roomId,
+        action: oneOf(['play', 'pause', 'seek']),
+        videoTime,
+    }),
+    'player:ended': object({ roomId, index: number({ min: 0, integer: true }), videoTime }),
+    'queue:add': object({ roomId, item: queueItem }),
+    // The handler applies PLAYLIST_IMPORT_LIMIT; this is only an upper bound
+    'queue:add-many': object({ roomId, items: array(queueItem, { min: 1, max: 500 }) }),
+    'queue:remove': object({ roomId, itemId: id }),
+    'queue:move': object({ roomId, itemId: id, toIndex: number({ min: 0, integer: true }) }),
+    'queue:upvote': object({ roomId, itemId: id, upvote: boolean() }),
+    'playlist:save': object({ roomId, name: string({ min: 1, max: 50 }) }),
+    'playlist:load': object({ roomId, playlistId: id, mode: oneOf(['replace', 'append']) }),
+    'playlist:delete': object({ roomId, playlistId: id }),
+    'queue:set-clip': object({ roomId, itemId: id, startAt: optional(videoTime), endAt: optional(videoTime) }),
+    'queue:change-video': object({ roomId, index: number({ min: 0, integer: true }) }),
+    'chat:send': object({ roomId, content: string({ min: 1, max: 500 }) }),
+    'vote:next': object({ roomId }),
+};
+
+/**
+ * Validate the first argument of an incoming event. Returns `{ value }` with
+ * the sanitized payload or `{ code, error }`.
+ */
+type ValidationResult = { value: unknown; error?: undefined } | { value?: undefined; code: SocketError['code']; error: string };
+
+export function validateEvent(event: string, payload: unknown): ValidationResult {
+    // Own keys only: the event name comes from the client, and names like
+    // `toString` or `__proto__` would otherwise find members of Object
+    const schema = Object.hasOwn(schemas, event) ? schemas[event as ClientEventName] : undefined;
+    if (!schema) {
+        return { code: 'unknown-event', error: `Unknown event ${event}` };
+    }
+    const result = schema(payload, rawEvents.has(event) ? 'payload' : '');
+    if (result.error) {
+        return { code: 'invalid-payload', error: result.error };
+    }
+    return { value: result.value };
+}
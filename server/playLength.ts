@@ -0,0 +1,35 @@
+import YouTube from 'youtube-sr';
+import type { NewQueueItem } from '../src/shared/protocol';
+import { parseTimestamp } from '../src/utils/youtube';
+
+/**
+ * Play lengths
+ *
+ * How long a queued video (or its clip) plays, so the server can tell when
+ * it is over by its own playback clock.
+ */
+
+// Length of the whole video from youtube-sr, in seconds
+async function lookUpDuration(videoId: string): Promise<number | null> {
+    try {
+        const video = await YouTube.getVideo(`https://www.youtube.com/watch?v=${videoId}`);
+        return video.duration > 0 ? video.duration / 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Seconds an item will play for: its clip if it has an end, otherwise the
+ * duration it came with, looked up when it came without one.
+ */
+export async function getPlayLength(
+    item: Pick<NewQueueItem, 'videoId' | 'duration' | 'startAt' | 'endAt'>,
+    lookUp: (videoId: string) => Promise<number | null> = lookUpDuration,
+): Promise<number | null> {
+    const startAt = item.startAt ?? 0;
+    if (item.endAt !== undefined) return item.endAt - startAt;
+
+    const duration = (item.duration && parseTimestamp(item.duration)) || await lookUp(item.videoId);
+    return duration ? Math.max(0, duration - startAt) : null;
+}
@@ -0,0 +1,40 @@
+import type { PlaybackState, PlayerHeartbeat } from '../src/shared/protocol';
+import type { Room } from './roomStore';
+
+/**
+ * Server-authoritative playback clock
+ *
+ * A room stores the media position (`currentTime`) at the moment playback last
+ * changed (`playbackUpdatedAt`). While playing, the live position is that
+ * offset plus the wall-clock time elapsed since.
+ */
+
+export function getPlaybackPosition(
+    room: Pick<Room, 'playerState' | 'currentTime' | 'playbackUpdatedAt'>,
+    now = Date.now(),
+): number {
+    if (room.playerState !== 'playing' || !room.playbackUpdatedAt) {
+        return room.currentTime;
+    }
+    return room.currentTime + (now - room.playbackUpdatedAt) / 1000;
+}
+
+export function setPlayback(
+    room: Room,
+    { playerState = room.playerState, videoTime }: { playerState?: PlaybackState; videoTime: number },
+    now = Date.now(),
+): void {
+    room.currentTime = Math.max(0, videoTime);
+    room.playerState = playerState;
+    room.playbackUpdatedAt = now;
+}
+
+// Payload for `player:heartbeat`, also sent right after `room:joined`
+export function getHeartbeat(room: Room, now = Date.now()): PlayerHeartbeat {
+    return {
+        playerState: room.playerState,
+        videoTime: getPlaybackPosition(room, now),
+        currentVideoIndex: room.currentVideoIndex,
+        serverTime: now,
+    };
+}
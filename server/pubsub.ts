@@ -0,0 +1,152 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+/**
+ * Pub/sub transport shared by server instances
+ *
+ * Running more than one instance needs two things: broadcasts that reach
+ * sockets connected to other instances (server/socketAdapter.ts) and room
+ * state that every instance sees (the shared store in server/roomStore.ts).
+ * Both go through this interface, Redis-style: fire-and-forget channels plus
+ * a small key-value space for room snapshots and lists for event logs.
+ */
+export interface PubSub {
+    publish(channel: string, message: string): Promise<void>;
+    subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    // Deletes values and lists alike
+    delete(key: string): Promise<void>;
+    // Add to the end of the list at `key`
+    append(key: string, value: string): Promise<void>;
+    // The whole list at `key`, empty if there is none
+    range(key: string): Promise<string[]>;
+    // Keys starting with `prefix`
+    keys(prefix: string): Promise<string[]>;
+    close(): Promise<void>;
+}
+
+/**
+ * In-process implementation. Servers created in the same process with the
+ * same instance behave like a cluster, which is handy for local testing.
+ */
+export function createMemoryPubSub(): PubSub {
+    const channels = new EventEmitter();
+    channels.setMaxListeners(0);
+    const values = new Map<string, string>();
+    const lists = new Map<string, string[]>();
+
+    return {
+        async publish(channel, message) {
+            // Deliver asynchronously, like a real broker would
+            setImmediate(() => channels.emit(channel, message));
+        },
+        async subscribe(channel, handler) {
+            channels.on(channel, handler);
+        },
+        async get(key) {
+            return values.get(key) ?? null;
+        },
+        async set(key, value) {
+            values.set(key, value);
+        },
+        async delete(key) {
+            values.delete(key);
+            lists.delete(key);
+        },
+        async append(key, value) {
+            const list = lists.get(key) || [];
+            list.push(value);
+            lists.set(key, list);
+        },
+        async range(key) {
+            return [...(lists.get(key) || [])];
+        },
+        async keys(prefix) {
+            return [...values.keys(), ...lists.keys()].filter(key => key.startsWith(prefix));
+        },
+        async close() {
+            channels.removeAllListeners();
+        },
+    };
+}
+
+// Redis (or any server speaking its protocol). Subscribing puts a Redis
+// connection in subscriber mode, so commands use a second connection.
+export function createRedisPubSub(url: string): PubSub {
+    // The ready check relies on INFO, which some Redis-compatible servers lack
+    const client = new Redis(url, { enableReadyCheck: false });
+    const subscriber = client.duplicate();
+    const handlers = new Map<string, ((message: string) => void)[]>();
+
+    for (const connection of [client, subscriber]) {
+        connection.on('error', (err) => {
+            console.error('Redis error:', err.message);
+        });
+    }
+
+    subscriber.on('message', (channel: string, message: string) => {
+        for (const handler of handlers.get(channel) || []) {
+            handler(message);
+        }
+    });
+
+    return {
+        async publish(channel, message) {
+            await client.publish(channel, message);
+        },
+        async subscribe(channel, handler) {
+            const existing = handlers.get(channel);
+            if (existing) {
+                existing.push(handler);
+                return;
+            }
+            handlers.set(channel, [handler]);
+            await subscriber.subscribe(channel);
+        },
+        async get(key) {
+            return client.get(key);
+        },
+        async set(key, value) {
+            await client.set(key, value);
+        },
+        async delete(key) {
+            await client.del(key);
+        },
+        async append(key, value) {
+            await client.rpush(key, value);
+        },
+        async range(key) {
+            return client.lrange(key, 0, -1);
+        },
+        async keys(prefix) {
+            const keys: string[] = [];
+            let cursor = '0';
+            do {
+                const [next, batch] = await client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+                keys.push(...batch);
+                cursor = next;
+            } while (cursor !== '0');
+            return keys;
+        },
+        // Pending writes are awaited by the caller; QUIT is deprecated in newer Redis versions
+        async close() {
+            client.disconnect();
+            subscriber.disconnect();
+        },
+    };
+}
+
+/**
+ * Create the transport selected by CLUSTER_PUBSUB: 'redis' (using REDIS_URL),
+ * 'memory', or nothing for a single stand-alone instance
+ */
+export function createPubSub(env: NodeJS.ProcessEnv = process.env): PubSub | null {
+    if (env.CLUSTER_PUBSUB === 'redis') {
+        return createRedisPubSub(env.REDIS_URL || 'redis://localhost:6379');
+    }
+    if (env.CLUSTER_PUBSUB === 'memory') {
+        return createMemoryPubSub();
+    }
+    return null;
+}
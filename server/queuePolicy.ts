@@ -0,0 +1,77 @@
+import type { QueuePolicyViolation } from '../src/shared/protocol';
+import { getContributor } from '../src/shared/queue';
+import type { Room } from './roomStore';
+
+/**
+ * Queue policies
+ *
+ * Limits the host can put on what participants queue: how many videos each
+ * of them may have waiting, how long a video may play, and whether a video
+ * can be queued again while it is waiting or soon after it played. Every
+ * limit is a room setting where 0 means off.
+ */
+
+// A video someone is adding, as far as the policies are concerned
+export interface PolicyCandidate {
+    videoId: string;
+    title: string;
+    addedBy: string;
+    addedById?: string;
+    // Seconds the video (or its clip) plays; null if it couldn't be found out
+    playLength: number | null;
+}
+
+/**
+ * The first policy `candidate` breaks, or null if it may be queued. `accepted`
+ * holds videos let through earlier in the same request, which count as
+ * waiting already.
+ */
+export function checkQueuePolicy(
+    room: Room,
+    candidate: PolicyCandidate,
+    accepted: Pick<PolicyCandidate, 'videoId' | 'addedBy' | 'addedById'>[] = [],
+    now = Date.now(),
+): QueuePolicyViolation | null {
+    const { maxPendingPerParticipant, maxDurationMinutes, duplicateWindowMinutes } = room.settings.queue;
+    const upcoming = [...room.queue.slice(room.currentVideoIndex + 1), ...accepted];
+
+    if (maxPendingPerParticipant > 0 &&
+        upcoming.filter(item => getContributor(item) === getContributor(candidate)).length >= maxPendingPerParticipant) {
+        return { policy: 'pending-limit', limit: maxPendingPerParticipant };
+    }
+
+    if (maxDurationMinutes > 0 && candidate.playLength !== null && candidate.playLength > maxDurationMinutes * 60) {
+        return { policy: 'max-duration', maxMinutes: maxDurationMinutes, title: candidate.title };
+    }
+
+    if (duplicateWindowMinutes > 0) {
+        // The video that is playing counts as waiting until it has finished
+        const waiting = [room.queue[room.currentVideoIndex], ...upcoming].filter(Boolean);
+        const playedSince = now - duplicateWindowMinutes * 60 * 1000;
+        const recentlyPlayed = room.history.filter(entry => entry.playedAt >= playedSince);
+        if ([...waiting, ...recentlyPlayed].some(item => item.videoId === candidate.videoId)) {
+            return { policy: 'duplicate', title: candidate.title };
+        }
+    }
+
+    return null;
+}
+
+// What the server tells whoever broke a policy; the client words it itself
+export function describeViolation(violation: QueuePolicyViolation): string {
+    switch (violation.policy) {
+        case 'pending-limit':
+            return `You can have at most ${violation.limit} videos waiting in the queue`;
+        case 'max-duration':
+            return `"${violation.title}" is longer than ${violation.maxMinutes} minutes`;
+        case 'duplicate':
+            return `"${violation.title}" is already in the queue or played recently`;
+    }
+}
+
+// The message for `refused` of `total` videos left out, `violation` being the first refusal
+export function describeRejection(violation: QueuePolicyViolation, refused: number, total: number): string {
+    return total > 1
+        ? `${refused} of ${total} videos were not added: ${describeViolation(violation)}`
+        : describeViolation(violation);
+}
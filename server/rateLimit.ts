@@ -0,0 +1,141 @@
+import type { ClientEventName, SocketError } from '../src/shared/protocol';
+
+/**
+ * Per-socket flood protection
+ *
+ * Each socket gets a token bucket per budget (chat, queue mutations, player
+ * control, profile changes, join attempts). An event that finds its bucket
+ * empty is refused; a socket that keeps hitting the limit is muted for a
+ * while, refusing every limited event.
+ */
+
+type BudgetName = 'chat' | 'queue' | 'player' | 'profile' | 'join';
+
+interface Budget {
+    burst: number;
+    perSecond: number;
+}
+
+export interface RateLimitConfig {
+    budgets: Record<BudgetName, Budget>;
+    muteAfter: number;
+    muteMs: number;
+}
+
+// Which budget each rate-limited event draws from
+const EVENT_BUDGETS: Partial<Record<ClientEventName, BudgetName>> = {
+    'chat:send': 'chat',
+    'queue:add': 'queue',
+    'queue:add-many': 'queue',
+    'queue:remove': 'queue',
+    'queue:move': 'queue',
+    'queue:upvote': 'queue',
+    'queue:set-clip': 'queue',
+    'queue:change-video': 'queue',
+    'room:restore': 'queue',
+    'playlist:save': 'queue',
+    'playlist:load': 'queue',
+    'playlist:delete': 'queue',
+    'player:action': 'player',
+    'player:ended': 'player',
+    'vote:next': 'player',
+    'participant:update': 'profile',
+    // Every attempt checks the room password, so this also limits guessing
+    'room:join': 'join',
+};
+
+const DEFAULT_BUDGETS: Record<BudgetName, Budget> = {
+    chat: { burst: 5, perSecond: 1 },
+    queue: { burst: 10, perSecond: 0.5 },
+    player: { burst: 10, perSecond: 2 },
+    profile: { burst: 5, perSecond: 1 },
+    join: { burst: 5, perSecond: 0.1 },
+};
+
+// Violations within this window count towards a mute
+const VIOLATION_WINDOW_MS = 10000;
+
+// Parse a `<burst>:<per second>` limit such as `5:1`, keeping the default
+// for anything malformed
+function parseBudget(name: string, value: string | undefined, fallback: Budget): Budget {
+    if (!value) return fallback;
+    const [burst, perSecond] = value.split(':').map(Number);
+    if (!(burst >= 1) || !(perSecond > 0)) {
+        console.warn(`Ignoring malformed ${name}=${value}, using ${fallback.burst}:${fallback.perSecond}`);
+        return fallback;
+    }
+    return { burst, perSecond };
+}
+
+// Parse a whole number of at least 1, keeping the default for anything else
+function parseCount(name: string, value: string | undefined, fallback: number): number {
+    if (!value) return fallback;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+        console.warn(`Ignoring malformed ${name}=${value}, using ${fallback}`);
+        return fallback;
+    }
+    return count;
+}
+
+/**
+ * Read limits from RATE_LIMIT_CHAT, RATE_LIMIT_QUEUE, RATE_LIMIT_PLAYER,
+ * RATE_LIMIT_PROFILE, RATE_LIMIT_JOIN, RATE_LIMIT_MUTE_AFTER and
+ * RATE_LIMIT_MUTE_MS
+ */
+export function getRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+    return {
+        budgets: {
+            chat: parseBudget('RATE_LIMIT_CHAT', env.RATE_LIMIT_CHAT, DEFAULT_BUDGETS.chat),
+            queue: parseBudget('RATE_LIMIT_QUEUE', env.RATE_LIMIT_QUEUE, DEFAULT_BUDGETS.queue),
+            player: parseBudget('RATE_LIMIT_PLAYER', env.RATE_LIMIT_PLAYER, DEFAULT_BUDGETS.player),
+            profile: parseBudget('RATE_LIMIT_PROFILE', env.RATE_LIMIT_PROFILE, DEFAULT_BUDGETS.profile),
+            join: parseBudget('RATE_LIMIT_JOIN', env.RATE_LIMIT_JOIN, DEFAULT_BUDGETS.join),
+        },
+        muteAfter: parseCount('RATE_LIMIT_MUTE_AFTER', env.RATE_LIMIT_MUTE_AFTER, 5),
+        muteMs: parseCount('RATE_LIMIT_MUTE_MS', env.RATE_LIMIT_MUTE_MS, 30000),
+    };
+}
+
+export function createRateLimiter({ budgets, muteAfter, muteMs }: RateLimitConfig) {
+    const buckets: Partial<Record<BudgetName, { tokens: number; updatedAt: number }>> = {};
+    let violations: number[] = [];
+    let mutedUntil = 0;
+
+    function take(budget: BudgetName, now: number): boolean {
+        const { burst, perSecond } = budgets[budget];
+        const bucket = buckets[budget] || (buckets[budget] = { tokens: burst, updatedAt: now });
+        bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+        bucket.updatedAt = now;
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    }
+
+    return {
+        /**
+         * Spend a token for `event`. Returns null when the event may go
+         * through, otherwise the error code and a message for the user.
+         */
+        check(event: string, now = Date.now()): { code: SocketError['code']; message: string } | null {
+            // Own keys only: names like `toString` would find members of Object
+            const budget = Object.hasOwn(EVENT_BUDGETS, event) ? EVENT_BUDGETS[event as ClientEventName] : undefined;
+            if (!budget) return null;
+
+            if (now < mutedUntil) {
+                const seconds = Math.ceil((mutedUntil - now) / 1000);
+                return { code: 'muted', message: `You are muted for ${seconds}s for sending too much` };
+            }
+            if (take(budget, now)) return null;
+
+            violations = violations.filter(time => now - time < VIOLATION_WINDOW_MS);
+            violations.push(now);
+            if (violations.length >= muteAfter) {
+                violations = [];
+                mutedUntil = now + muteMs;
+                return { code: 'muted', message: `You are muted for ${Math.ceil(muteMs / 1000)}s for sending too much` };
+            }
+            return { code: 'throttled', message: 'You are doing that too fast, slow down' };
+        },
+    };
+}
@@ -0,0 +1,70 @@
+import type { Participant } from '../src/shared/protocol';
+import type { Room } from './roomStore';
+
+/**
+ * Host role and bans
+ *
+ * The server decides who the host is: the first participant to join gets the
+ * role, and it passes to the longest-present participant when the host
+ * leaves. Only the host may transfer the role, kick or ban.
+ */
+
+export interface Ban {
+    participantId: string;
+    clientId: string | null;
+    name: string;
+    bannedAt: number;
+}
+
+export function isHost(room: Room, participantId: string | null): boolean {
+    return room.participants.some(p => p.id === participantId && p.isHost);
+}
+
+/**
+ * Make sure exactly one participant is host. Returns the ID of a newly
+ * assigned host, or null if nothing changed.
+ */
+export function ensureHost(room: Room): string | null {
+    if (room.participants.length === 0 || room.participants.some(p => p.isHost)) {
+        return null;
+    }
+    room.participants[0].isHost = true;
+    return room.participants[0].id;
+}
+
+/**
+ * Move the host role to `participantId`. Returns the IDs whose `isHost`
+ * changed, or an empty list if the target is not in the room.
+ */
+export function transferHost(room: Room, participantId: string): string[] {
+    const target = room.participants.find(p => p.id === participantId);
+    if (!target || target.isHost) return [];
+
+    const changed = [target.id];
+    for (const participant of room.participants) {
+        if (participant.isHost) {
+            participant.isHost = false;
+            changed.push(participant.id);
+        }
+    }
+    target.isHost = true;
+    return changed;
+}
+
+// Bans match the participant ID and the client ID the browser sends on join,
+// so a banned user can't simply rejoin with a fresh participant slot
+export function banParticipant(room: Room, participant: Participant, clientId: string | null | undefined, now = Date.now()): void {
+    room.bans.push({
+        participantId: participant.id,
+        clientId: clientId || null,
+        name: participant.name,
+        bannedAt: now,
+    });
+}
+
+export function isBanned(room: Room, { participantId, clientId }: { participantId: string | null; clientId?: string | null }): boolean {
+    return room.bans.some(ban =>
+        (participantId && ban.participantId === participantId) ||
+        (clientId && ban.clientId === clientId)
+    );
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import type { JoinCredentials, JoinError, RoomInvite } from '../src/shared/protocol';
+import type { CreateRoomOptions } from '../src/utils/roomService';
+import type { Room } from './roomStore';
+
+/**
+ * Room access control
+ *
+ * A room can be locked with a password, with expiring invite tokens, or both.
+ * A locked room admits anyone with the password or a valid invite; resumed
+ * sessions are let back in without checking again.
+ */
+
+export interface RoomAccess {
+    password: { salt: string; hash: string } | null; // scrypt hash when the room has a password
+    invites: RoomInvite[];
+    inviteOnly: boolean;
+}
+
+const DEFAULT_INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function createAccess(): RoomAccess {
+    return {
+        password: null,
+        invites: [],
+        inviteOnly: false,
+    };
+}
+
+// Hashed on the libuv thread pool, so checking a password doesn't hold up other sockets
+function hashPassword(password: string, salt = crypto.randomBytes(16).toString('hex')): Promise<{ salt: string; hash: string }> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, 32, (err, key) => {
+            if (err) reject(err);
+            else resolve({ salt, hash: key.toString('hex') });
+        });
+    });
+}
+
+async function verifyPassword(password: string, stored: { salt: string; hash: string }): Promise<boolean> {
+    const { hash } = await hashPassword(password, stored.salt);
+    return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(stored.hash, 'hex'));
+}
+
+export function createInvite(room: Room, ttlMs = DEFAULT_INVITE_TTL_MS, now = Date.now()): RoomInvite {
+    const invite = {
+        token: crypto.randomBytes(16).toString('base64url'),
+        expiresAt: now + ttlMs,
+    };
+    room.access.invites.push(invite);
+    return invite;
+}
+
+// Drop invites that can no longer be used
+function pruneInvites(room: Room, now = Date.now()): void {
+    room.access.invites = room.access.invites.filter(invite => invite.expiresAt > now);
+}
+
+/**
+ * Lock a room. `inviteCount` invites are created up front; they are returned
+ * so they can be handed out.
+ */
+export async function configureAccess(
+    room: Room,
+    { password, inviteOnly = false, inviteCount = 0, inviteTtlMs }: CreateRoomOptions = {},
+): Promise<RoomInvite[]> {
+    room.access = createAccess();
+    if (password) {
+        room.access.password = await hashPassword(password);
+    }
+    room.access.inviteOnly = inviteOnly;
+
+    const invites: RoomInvite[] = [];
+    for (let i = 0; i < inviteCount; i++) {
+        invites.push(createInvite(room, inviteTtlMs));
+    }
+    return invites;
+}
+
+export function isLocked(room: Room): boolean {
+    return Boolean(room.access.password) || room.access.inviteOnly;
+}
+
+/**
+ * Check join credentials. Returns null when access is granted, otherwise the
+ * rejection reason and a message for the user.
+ */
+export async function checkAccess(room: Room, { password, inviteToken }: JoinCredentials = {}, now = Date.now()): Promise<JoinError | null> {
+    if (!isLocked(room)) return null;
+
+    pruneInvites(room, now);
+    if (inviteToken && room.access.invites.some(invite => invite.token === inviteToken)) {
+        return null;
+    }
+
+    if (room.access.password) {
+        if (!password) {
+            return { reason: 'password-required', message: 'This room is protected with a password.' };
+        }
+        if (!await verifyPassword(password, room.access.password)) {
+            return { reason: 'invalid-password', message: 'Incorrect password.' };
+        }
+        return null;
+    }
+
+    return inviteToken
+        ? { reason: 'invalid-invite', message: 'This invite link is invalid or has expired.' }
+        : { reason: 'invite-required', message: 'This room is invite-only. Ask the host for an invite link.' };
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import type { QueueUpvotes, RoomContent, RoomEvent, RoomEventData } from '../src/shared/protocol';
+import { moveQueueItem } from '../src/shared/queue';
+import { setPlayback } from './playbackClock';
+import { createRoom, MAX_HISTORY, MAX_MESSAGES, type Room } from './roomStore';
+
+/**
+ * Room events
+ *
+ * Changes to what a room is watching and saying (queue, current video,
+ * playback, chat, votes) are recorded as events and applied with
+ * `applyEvent`, which is the only code that makes them. The live room is the
+ * result of applying every event in order, so replaying a room's log gives
+ * the same state and replaying part of it gives the state at that point.
+ *
+ * Joins and leaves are recorded too so the log reads as a history of the
+ * room, but who is in the room isn't derived from it. The watch history is
+ * built by the events that start a video, but isn't part of the room content,
+ * so a restore doesn't take back what the room already watched. The event
+ * types are in src/shared/protocol.ts since the log is also served by the
+ * rooms API.
+ */
+
+export function createEvent(data: RoomEventData, by: string | null, now = Date.now()): RoomEvent {
+    return { ...data, id: crypto.randomUUID(), at: now, by };
+}
+
+export function getRoomContent(room: Room): RoomContent {
+    return {
+        queue: room.queue,
+        currentVideoIndex: room.currentVideoIndex,
+        playerState: room.playerState,
+        currentTime: room.currentTime,
+        playbackUpdatedAt: room.playbackUpdatedAt,
+        messages: room.messages,
+        votes: Array.from(room.votes),
+        upvotes: room.upvotes,
+    };
+}
+
+// Add the current video to the watch history
+function markPlayed(room: Room, at: number) {
+    const item = room.queue[room.currentVideoIndex];
+    if (item) {
+        room.history = [...room.history, { ...item, playedAt: at }].slice(-MAX_HISTORY);
+    }
+}
+
+// Items nobody upvotes are left out of `upvotes`
+function withVoters(upvotes: QueueUpvotes, itemId: string, voters: string[]): QueueUpvotes {
+    const updated = { ...upvotes, [itemId]: voters };
+    return Object.fromEntries(Object.entries(updated).filter(([, ids]) => ids.length > 0));
+}
+
+export function applyEvent(room: Room, event: RoomEvent): void {
+    switch (event.type) {
+        case 'participant-joined':
+            break;
+        case 'participant-left':
+            room.votes.delete(event.participantId);
+            for (const [itemId, voters] of Object.entries(room.upvotes)) {
+                room.upvotes = withVoters(room.upvotes, itemId, voters.filter(id => id !== event.participantId));
+            }
+            break;
+        case 'queue-added':
+            room.queue = [...room.queue, event.item];
+            // Added to an empty queue: it is the current video now
+            if (room.queue.length - 1 === room.currentVideoIndex) {
+                setPlayback(room, { videoTime: event.item.startAt ?? 0 }, event.at);
+                markPlayed(room, event.at);
+            }
+            break;
+        case 'queue-removed':
+            room.queue = room.queue.filter(item => item.id !== event.itemId);
+            room.upvotes = withVoters(room.upvotes, event.itemId, []);
+            break;
+        case 'queue-moved': {
+            const moved = moveQueueItem(room.queue, room.currentVideoIndex, event.itemId, event.toIndex);
+            if (moved) Object.assign(room, moved);
+            break;
+        }
+        case 'queue-clip-changed':
+            room.queue = room.queue.map(item => (
+                item.id === event.itemId ? { ...item, startAt: event.startAt, endAt: event.endAt } : item
+            ));
+            break;
+        case 'queue-replaced':
+            room.queue = event.queue;
+            room.currentVideoIndex = 0;
+            room.upvotes = {};
+            setPlayback(room, { videoTime: event.queue[0]?.startAt ?? 0 }, event.at);
+            markPlayed(room, event.at);
+            break;
+        case 'queue-sorted': {
+            // The event holds the resulting order, so replaying it doesn't
+            // depend on who was in the room at the time
+            const items = new Map(room.queue.map(item => [item.id, item]));
+            room.queue = event.itemIds.flatMap(id => items.get(id) ?? []);
+            break;
+        }
+        case 'upvote-added': {
+            const voters = room.upvotes[event.itemId] || [];
+            if (!voters.includes(event.participantId)) {
+                room.upvotes = withVoters(room.upvotes, event.itemId, [...voters, event.participantId]);
+            }
+            break;
+        }
+        case 'upvote-removed': {
+            const voters = room.upvotes[event.itemId] || [];
+            room.upvotes = withVoters(room.upvotes, event.itemId, voters.filter(id => id !== event.participantId));
+            break;
+        }
+        case 'video-changed':
+            room.currentVideoIndex = event.index;
+            // Clips start part way into the video
+            setPlayback(room, { videoTime: room.queue[event.index]?.startAt ?? 0 }, event.at);
+            // Upvotes only count for videos that haven't played yet
+            if (room.queue[event.index]) {
+                room.upvotes = withVoters(room.upvotes, room.queue[event.index].id, []);
+            }
+            markPlayed(room, event.at);
+            break;
+        case 'playback-changed':
+            setPlayback(room, { playerState: event.playerState, videoTime: event.videoTime }, event.at);
+            break;
+        case 'chat-message':
+            // Keep only the latest messages
+            room.messages = [...room.messages, event.message].slice(-MAX_MESSAGES);
+            break;
+        case 'vote-added':
+            room.votes.add(event.participantId);
+            break;
+        case 'votes-cleared':
+            room.votes.clear();
+            break;
+        case 'restored':
+        case 'log-trimmed':
+            Object.assign(room, { ...event.content, votes: new Set(event.content.votes) });
+            break;
+    }
+}
+
+/**
+ * Room content after the events up to and including `untilId` (all of them
+ * if omitted). Returns null if `untilId` isn't in the log.
+ */
+export function replayEvents(events: RoomEvent[], untilId?: string): RoomContent | null {
+    const room = createRoom();
+    for (const event of events) {
+        applyEvent(room, event);
+        if (event.id === untilId) return getRoomContent(room);
+    }
+    return untilId ? null : getRoomContent(room);
+}
+
+/**
+ * Keep the last `keep` events, with the ones before them folded into a
+ * single 'log-trimmed' event, so replaying the log still gives the same room.
+ */
+export function trimEvents(events: RoomEvent[], keep: number): RoomEvent[] {
+    if (events.length <= keep) return events;
+
+    const dropped = events.slice(0, events.length - keep);
+    // Counting the events an earlier trim dropped
+    const droppedEvents = dropped.reduce((count, event) => count + (event.type === 'log-trimmed' ? event.droppedEvents : 1), 0);
+    const trimmed = createEvent({
+        type: 'log-trimmed',
+        droppedEvents,
+        content: replayEvents(dropped)!,
+    }, null, dropped[dropped.length - 1].at);
+    return [trimmed, ...events.slice(-keep)];
+}
@@ -0,0 +1,101 @@
+import { DEFAULT_ROOM_SETTINGS, type RoomSettings } from '../src/shared/protocol';
+
+/**
+ * Per-room settings
+ *
+ * Settings are grouped by feature. Updates are merged group by group and
+ * every value is clamped to its allowed range or checked against its
+ * options, so a client can never put a room into an unusable state. The
+ * defaults are DEFAULT_ROOM_SETTINGS in src/shared/protocol.ts, which the
+ * client starts from too.
+ */
+
+interface RangeSetting {
+    min: number;
+    max: number;
+}
+
+interface ChoiceSetting<T extends string> {
+    options: readonly T[];
+}
+
+// Numeric settings have a range, string settings a list of options
+type SettingDefinition<T> = [T] extends [string] ? ChoiceSetting<T> : RangeSetting;
+
+type SettingDefinitions = {
+    [Group in keyof RoomSettings]: {
+        [Key in keyof RoomSettings[Group]]: SettingDefinition<RoomSettings[Group][Key]>;
+    };
+};
+
+const SETTING_DEFINITIONS: SettingDefinitions = {
+    sync: {
+        // Drift (seconds) below which clients leave playback alone
+        driftTolerance: { min: 0.05, max: 1 },
+        // Drift (seconds) above which clients hard-seek instead of nudging the rate
+        seekThreshold: { min: 0.5, max: 10 },
+        // Max playback rate change used to catch up or slow down (0.05 = 0.95x-1.05x)
+        maxRateAdjustment: { min: 0.05, max: 0.25 },
+    },
+    queue: {
+        // 'votes' keeps upcoming videos sorted by upvotes, 'round-robin'
+        // gives everyone who queued something one video per round
+        order: { options: ['manual', 'votes', 'round-robin'] },
+        // Queue policies (see server/queuePolicy.ts); 0 is no limit
+        maxPendingPerParticipant: { min: 0, max: 100 },
+        maxDurationMinutes: { min: 0, max: 24 * 60 },
+        duplicateWindowMinutes: { min: 0, max: 7 * 24 * 60 },
+    },
+    playback: {
+        // What the server does when a video ends; skipping by vote works in every mode
+        mode: { options: ['manual', 'auto-advance', 'repeat-one', 'repeat-queue', 'shuffle', 'radio'] },
+    },
+};
+
+// Settings groups are built key by key below, so they are handled as plain records
+type SettingValue = number | string;
+type SettingValues = Record<string, Record<string, SettingValue>>;
+type AnySetting = RangeSetting | ChoiceSetting<string>;
+
+export function getDefaultSettings(): RoomSettings {
+    return structuredClone(DEFAULT_ROOM_SETTINGS);
+}
+
+// The value to store for `value`, or undefined if it isn't acceptable
+function checkValue(value: unknown, definition: AnySetting): SettingValue | undefined {
+    if ('options' in definition) {
+        return typeof value === 'string' && definition.options.includes(value) ? value : undefined;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return Math.min(definition.max, Math.max(definition.min, value));
+    }
+    return undefined;
+}
+
+/**
+ * Merge `updates` into `settings`, ignoring unknown keys and values of the
+ * wrong type. Returns the new settings object.
+ */
+export function mergeSettings(settings: RoomSettings, updates: unknown): RoomSettings {
+    const current = settings as unknown as SettingValues;
+    const changes = (updates && typeof updates === 'object' ? updates : {}) as Record<string, unknown>;
+    const merged: SettingValues = {};
+    for (const [group, fields] of Object.entries(SETTING_DEFINITIONS)) {
+        merged[group] = { ...current[group] };
+        const groupUpdates = changes[group] as Record<string, unknown> | undefined;
+        if (!groupUpdates || typeof groupUpdates !== 'object') continue;
+
+        for (const [key, definition] of Object.entries<AnySetting>(fields)) {
+            const value = checkValue(groupUpdates[key], definition);
+            if (value !== undefined) {
+                merged[group][key] = value;
+            }
+        }
+    }
+
+    const result = merged as unknown as RoomSettings;
+    // Nudging only makes sense well below the hard-seek threshold
+    result.sync.driftTolerance = Math.min(result.sync.driftTolerance, result.sync.seekThreshold / 2);
+
+    return result;
+}
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Participant, QueueItem } from '../src/shared/protocol';
+import { createMemoryPubSub } from './pubsub';
+import { createRoom, createSharedStore, type Room } from './roomStore';
+
+function item(id: string): QueueItem {
+    return { id, videoId: id.padEnd(11, 'x'), title: id, thumbnail: '', addedBy: 'someone', addedAt: 1 };
+}
+
+function participant(id: string): Participant {
+    return { id, name: id, isHost: false, isMuted: false, isCameraOff: false };
+}
+
+// Memory pub/sub delivers on the next turn of the event loop
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+// Two instances sharing one room
+async function setup(room = createRoom()) {
+    const pubsub = createMemoryPubSub();
+    const storeA = createSharedStore(pubsub);
+    const storeB = createSharedStore(pubsub);
+    await storeA.load();
+    await storeB.load();
+    storeA.set('room', room);
+    await settle();
+    return { storeA, storeB, a: storeA.get('room')!, b: storeB.get('room')! };
+}
+
+// Change the room on both instances at once
+async function concurrently(a: Room, b: Room, changeA: (room: Room) => void, changeB: (room: Room) => void, stores: ReturnType<typeof createSharedStore>[]) {
+    changeA(a);
+    changeB(b);
+    for (const store of stores) store.save('room');
+    await settle();
+}
+
+const ids = (items: { id: string }[]) => items.map(entry => entry.id);
+
+test('concurrent joins keep both participants and their sessions', async () => {
+    const { storeA, storeB, a, b } = await setup();
+    await concurrently(a, b, room => {
+        room.participants.push(participant('p1'));
+        room.sessions.token1 = 'p1';
+    }, room => {
+        room.participants.push(participant('p2'));
+        room.sessions.token2 = 'p2';
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.participants), ids(b.participants));
+    assert.deepEqual(new Set(ids(a.participants)), new Set(['p1', 'p2']));
+    assert.deepEqual(a.sessions, { token1: 'p1', token2: 'p2' });
+    assert.deepEqual(b.sessions, a.sessions);
+});
+
+test('a leave on one instance and a disconnect on another both stay', async () => {
+    const room = createRoom();
+    room.participants = [participant('p1'), participant('p2')];
+    room.disconnectedAt = { p1: 100 };
+    const { storeA, storeB, a, b } = await setup(room);
+    await concurrently(a, b, room => {
+        room.participants = room.participants.filter(entry => entry.id !== 'p1');
+        delete room.disconnectedAt.p1;
+    }, room => {
+        room.disconnectedAt.p2 = 200;
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.participants), ['p2']);
+    assert.deepEqual(ids(b.participants), ['p2']);
+    assert.deepEqual(a.disconnectedAt, { p2: 200 });
+    assert.deepEqual(b.disconnectedAt, { p2: 200 });
+});
+
+test('concurrent adds to an empty room play the same video everywhere', async () => {
+    const { storeA, storeB, a, b } = await setup();
+    await concurrently(a, b, room => {
+        room.queue = [item('a1')];
+    }, room => {
+        room.queue = [item('b1')];
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.queue), ids(b.queue));
+    assert.equal(a.queue.length, 2);
+    assert.equal(a.queue[a.currentVideoIndex].id, b.queue[b.currentVideoIndex].id);
+});
+
+test('concurrent appends and removals merge the queue', async () => {
+    const room = createRoom();
+    room.queue = ['q0', 'q1', 'q2'].map(item);
+    room.currentVideoIndex = 1;
+    const { storeA, storeB, a, b } = await setup(room);
+    await concurrently(a, b, room => {
+        room.queue = room.queue.filter(entry => entry.id !== 'q0');
+        room.currentVideoIndex = 0;
+    }, room => {
+        room.queue = [...room.queue, item('b1')];
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.queue), ['q1', 'q2', 'b1']);
+    assert.deepEqual(ids(b.queue), ['q1', 'q2', 'b1']);
+    assert.equal(a.queue[a.currentVideoIndex].id, 'q1');
+    assert.equal(b.queue[b.currentVideoIndex].id, 'q1');
+});
+
+test('skipping on one instance while another appends keeps the skip', async () => {
+    const room = createRoom();
+    room.queue = ['q0', 'q1'].map(item);
+    const { storeA, storeB, a, b } = await setup(room);
+    await concurrently(a, b, room => {
+        room.currentVideoIndex = 1;
+    }, room => {
+        room.queue = [...room.queue, item('b1')];
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.queue), ['q0', 'q1', 'b1']);
+    assert.deepEqual(ids(b.queue), ['q0', 'q1', 'b1']);
+    assert.equal(a.currentVideoIndex, 1);
+    assert.equal(b.currentVideoIndex, 1);
+});
+
+test('chat messages and votes from both instances are kept', async () => {
+    const { storeA, storeB, a, b } = await setup();
+    const message = (id: string, timestamp: number) => ({ id, senderId: 'x', senderName: 'x', content: id, timestamp });
+    await concurrently(a, b, room => {
+        room.messages.push(message('m1', 1));
+        room.votes.add('p1');
+    }, room => {
+        room.messages.push(message('m2', 2));
+        room.votes.add('p2');
+    }, [storeA, storeB]);
+
+    assert.deepEqual(ids(a.messages), ['m1', 'm2']);
+    assert.deepEqual(ids(b.messages), ['m1', 'm2']);
+    assert.deepEqual(new Set(a.votes), new Set(['p1', 'p2']));
+    assert.deepEqual(new Set(b.votes), new Set(['p1', 'p2']));
+});
@@ -0,0 +1,596 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ChatMessage, Participant, PlaybackState, PlayedItem, QueueItem, QueueUpvotes, RoomSettings, SavedPlaylist } from '../src/shared/protocol';
+import { getDefaultSettings, mergeSettings } from './roomSettings';
+import { createAccess, type RoomAccess } from './roomAccess';
+import type { Ban } from './roles';
+import type { PubSub } from './pubsub';
+
+export interface Room {
+    participants: Participant[];
+    queue: QueueItem[];
+    messages: ChatMessage[];
+    votes: Set<string>;
+    upvotes: QueueUpvotes;
+    // Videos the room played, oldest first; unlike the queue this survives restores
+    history: PlayedItem[];
+    // Named queues saved by participants, kept for as long as the room
+    playlists: SavedPlaylist[];
+    currentVideoIndex: number;
+    playerState: PlaybackState;
+    currentTime: number;
+    playbackUpdatedAt: number;
+    settings: RoomSettings;
+    // Resume token -> participant ID
+    sessions: Record<string, string>;
+    // Participant ID -> when their last socket disconnected
+    disconnectedAt: Record<string, number>;
+    bans: Ban[];
+    access: RoomAccess;
+    createdAt: number;
+    lastActiveAt: number;
+}
+
+// Chat history kept per room
+export const MAX_MESSAGES = 100;
+
+// Played videos kept per room
+export const MAX_HISTORY = 200;
+
+// Saved playlists per room
+export const MAX_PLAYLISTS = 20;
+
+// A room as written to JSON
+export type SerializedRoom = Omit<Room, 'votes'> & { votes: string[] };
+
+/**
+ * Room store interface
+ *
+ * Every store exposes the same synchronous API so socket handlers can keep
+ * mutating room objects in place and just call `save()` afterwards.
+ *
+ * Expired rooms leave a tombstone behind so clients can be told the room is
+ * gone instead of silently getting a fresh one.
+ */
+export interface RoomStore {
+    // Load existing rooms; call once before serving
+    load(): Promise<void>;
+    get(roomId: string): Room | undefined;
+    set(roomId: string, room: Room): void;
+    // Persist changes made to an existing room
+    save(roomId: string): void;
+    delete(roomId: string): void;
+    entries(): Iterable<[string, Room]>;
+    // Write pending changes before shutdown
+    flush(): Promise<void>;
+    // Delete the room and record when it expired
+    expire(roomId: string, now?: number): void;
+    getExpiredAt(roomId: string): number | undefined;
+    // Forget tombstones older than `before`
+    pruneExpired(before: number): void;
+}
+
+export function createRoom(now = Date.now()): Room {
+    return {
+        participants: [],
+        queue: [],
+        messages: [],
+        votes: new Set(),
+        upvotes: {},
+        history: [],
+        playlists: [],
+        currentVideoIndex: 0,
+        playerState: 'paused',
+        currentTime: 0,
+        playbackUpdatedAt: 0,
+        settings: getDefaultSettings(),
+        sessions: {},
+        disconnectedAt: {},
+        bans: [],
+        access: createAccess(),
+        createdAt: now,
+        lastActiveAt: now,
+    };
+}
+
+// Sets don't survive JSON, so votes are stored as a plain array
+export function serializeRoom(room: Room): SerializedRoom {
+    return { ...room, votes: Array.from(room.votes) };
+}
+
+export function deserializeRoom(data: Partial<SerializedRoom>): Room {
+    const room = createRoom();
+    return {
+        ...room,
+        ...data,
+        votes: new Set(data.votes || []),
+        // Rooms saved before a setting existed pick up its default
+        settings: mergeSettings(room.settings, data.settings),
+    };
+}
+
+// In-memory store: state is lost when the process exits
+export function createMemoryStore(): RoomStore {
+    const rooms = new Map<string, Room>();
+    const expired = new Map<string, number>();
+
+    return {
+        load: async () => { },
+        get: (roomId) => rooms.get(roomId),
+        set: (roomId, room) => {
+            rooms.set(roomId, room);
+        },
+        save: () => { },
+        delete: (roomId) => {
+            rooms.delete(roomId);
+        },
+        entries: () => rooms.entries(),
+        flush: async () => { },
+        expire: (roomId, now = Date.now()) => {
+            rooms.delete(roomId);
+            expired.set(roomId, now);
+        },
+        getExpiredAt: (roomId) => expired.get(roomId),
+        pruneExpired: (before) => {
+            for (const [roomId, expiredAt] of expired) {
+                if (expiredAt < before) expired.delete(roomId);
+            }
+        },
+    };
+}
+
+// File-backed store: rooms are kept in memory and written to a single JSON
+// file shortly after they change, so a restart picks up where it left off
+export function createFileStore(filePath: string, { writeDelay = 500 } = {}): RoomStore {
+    const rooms = new Map<string, Room>();
+    const expired = new Map<string, number>();
+    let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    try {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        for (const [roomId, room] of Object.entries<Partial<SerializedRoom>>(data.rooms || {})) {
+            rooms.set(roomId, deserializeRoom(room));
+        }
+        for (const [roomId, expiredAt] of Object.entries<number>(data.expired || {})) {
+            expired.set(roomId, expiredAt);
+        }
+        console.log(`Loaded ${rooms.size} room(s) from ${filePath}`);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`Failed to load rooms from ${filePath}:`, err);
+        }
+    }
+
+    function write() {
+        if (writeTimer) {
+            clearTimeout(writeTimer);
+            writeTimer = null;
+        }
+
+        const data = { rooms: {} as Record<string, SerializedRoom>, expired: Object.fromEntries(expired) };
+        for (const [roomId, room] of rooms) {
+            data.rooms[roomId] = serializeRoom(room);
+        }
+
+        // Write to a temp file first so a crash mid-write can't corrupt the store
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            const tmpPath = `${filePath}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(data));
+            fs.renameSync(tmpPath, filePath);
+        } catch (err) {
+            console.error(`Failed to write rooms to ${filePath}:`, err);
+        }
+    }
+
+    function scheduleWrite() {
+        if (!writeTimer) {
+            writeTimer = setTimeout(write, writeDelay);
+        }
+    }
+
+    return {
+        // Rooms are read synchronously above
+        load: async () => { },
+        get: (roomId) => rooms.get(roomId),
+        set: (roomId, room) => {
+            rooms.set(roomId, room);
+            scheduleWrite();
+        },
+        save: scheduleWrite,
+        delete: (roomId) => {
+            rooms.delete(roomId);
+            scheduleWrite();
+        },
+        entries: () => rooms.entries(),
+        flush: async () => {
+            if (writeTimer) write();
+        },
+        expire: (roomId, now = Date.now()) => {
+            rooms.delete(roomId);
+            expired.set(roomId, now);
+            scheduleWrite();
+        },
+        getExpiredAt: (roomId) => expired.get(roomId),
+        pruneExpired: (before) => {
+            for (const [roomId, expiredAt] of expired) {
+                if (expiredAt < before) {
+                    expired.delete(roomId);
+                    scheduleWrite();
+                }
+            }
+        },
+    };
+}
+
+const ROOM_KEY = 'hangout:room:';
+const EXPIRED_KEY = 'hangout:expired:';
+const ROOMS_CHANNEL = 'hangout:rooms';
+
+type RoomField = keyof SerializedRoom;
+
+// The latest write to one field of a room
+interface FieldVersion {
+    version: number;
+    origin: string; // Instance ID
+}
+
+// `previous` is what the sender had before, for fields merged from what changed
+type FieldUpdate = FieldVersion & { value: unknown; previous?: unknown };
+
+// What this instance last sent or accepted for each field
+type SyncedFields = Partial<Record<RoomField, FieldVersion & { json: string }>>;
+
+type RoomUpdate =
+    | { type: 'patch'; roomId: string; origin: string; created: boolean; fields: Partial<Record<RoomField, FieldUpdate>> }
+    | { type: 'delete'; roomId: string; origin: string }
+    | { type: 'expire'; roomId: string; origin: string; expiredAt: number };
+
+function isNewer(update: FieldVersion, current: FieldVersion | undefined): boolean {
+    return !current || update.version > current.version
+        || (update.version === current.version && update.origin > current.origin);
+}
+
+// Chat is append-only, so concurrent messages are merged instead of one
+// replacing the other
+function mergeMessages(local: ChatMessage[], remote: ChatMessage[]): ChatMessage[] {
+    const byId = new Map(local.map(message => [message.id, message]));
+    for (const message of remote) byId.set(message.id, message);
+    return Array.from(byId.values())
+        .sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : 1))
+        .slice(-MAX_MESSAGES);
+}
+
+// Sets of IDs (votes, an item's upvoters): what the sender added since
+// `previous` is added here and what it removed is removed
+function mergeIds(local: string[], previous: string[], remote: string[]): string[] {
+    const removed = new Set(previous.filter(id => !remote.includes(id)));
+    const added = remote.filter(id => !previous.includes(id) && !local.includes(id));
+    return [...local.filter(id => !removed.has(id)), ...added];
+}
+
+function mergeUpvotes(local: QueueUpvotes, previous: QueueUpvotes, remote: QueueUpvotes): QueueUpvotes {
+    const merged: QueueUpvotes = {};
+    for (const itemId of new Set([...Object.keys(local), ...Object.keys(previous), ...Object.keys(remote)])) {
+        const voters = mergeIds(local[itemId] || [], previous[itemId] || [], remote[itemId] || []);
+        // Items nobody upvotes are left out, as in the room itself
+        if (voters.length > 0) merged[itemId] = voters;
+    }
+    return merged;
+}
+
+/**
+ * Apply what the sender changed in a list of items with IDs (the queue,
+ * participants) since `previous` to the local list. Items removed on either
+ * side are gone and items added on either side are kept after the item they
+ * were added behind. When both sides moved or edited items, `remoteWins`
+ * picks whose order or edit is kept, so every instance ends up with the same
+ * list.
+ */
+function mergeList<T extends { id: string }>(local: T[], previous: T[], remote: T[], remoteWins: boolean): T[] {
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const localById = new Map(local.map(item => [item.id, item]));
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+
+    // Order of the items neither side removed
+    const keptOrder = (items: T[]) => items
+        .filter(item => previousById.has(item.id) && localById.has(item.id) && remoteById.has(item.id))
+        .map(item => item.id);
+    const previousOrder = keptOrder(previous);
+    const moved = (order: string[]) => order.some((id, index) => id !== previousOrder[index]);
+    const localOrder = keptOrder(local);
+    const remoteOrder = keptOrder(remote);
+    const localMoved = moved(localOrder);
+    const remoteMoved = moved(remoteOrder);
+    let order = remoteMoved && (remoteWins || !localMoved) ? remoteOrder : localMoved ? localOrder : previousOrder;
+
+    // New items go right after the item before them on their side
+    const insertAdded = (items: T[]) => {
+        let position = 0;
+        for (const item of items) {
+            const index = order.indexOf(item.id);
+            if (index !== -1) {
+                position = index + 1;
+            } else if (!previousById.has(item.id)) {
+                order = [...order.slice(0, position), item.id, ...order.slice(position)];
+                position++;
+            }
+        }
+    };
+    insertAdded(remoteWins ? remote : local);
+    insertAdded(remoteWins ? local : remote);
+
+    return order.map(id => {
+        const localItem = localById.get(id);
+        const remoteItem = remoteById.get(id);
+        if (!localItem) return remoteItem!;
+        if (!remoteItem) return localItem;
+        const before = JSON.stringify(previousById.get(id));
+        const remoteEdited = JSON.stringify(remoteItem) !== before;
+        const localEdited = JSON.stringify(localItem) !== before;
+        return remoteEdited && (remoteWins || !localEdited) ? remoteItem : localItem;
+    });
+}
+
+// Maps keyed by participant or token (sessions, disconnect times): keys the
+// sender set, changed or removed since `previous` are applied here, unless
+// both sides changed the same key and ours wins
+function mergeRecord<T>(local: Record<string, T>, previous: Record<string, T>, remote: Record<string, T>, remoteWins: boolean): Record<string, T> {
+    const merged = { ...local };
+    for (const key of new Set([...Object.keys(previous), ...Object.keys(remote)])) {
+        const before = JSON.stringify(previous[key]);
+        if (JSON.stringify(remote[key]) === before) continue;
+        if (!remoteWins && JSON.stringify(local[key]) !== before) continue;
+        if (Object.hasOwn(remote, key)) {
+            merged[key] = remote[key];
+        } else {
+            delete merged[key];
+        }
+    }
+    return merged;
+}
+
+// Fields merged from what the sender changed rather than replaced, so
+// changes made on different instances at once all stay
+const FIELD_MERGES: Partial<Record<RoomField, (local: SerializedRoom, previous: never, remote: never, remoteWins: boolean) => unknown>> = {
+    votes: (local, previous, remote) => mergeIds(local.votes, previous, remote),
+    upvotes: (local, previous, remote) => mergeUpvotes(local.upvotes, previous, remote),
+    queue: (local, previous, remote, remoteWins) => mergeList(local.queue, previous, remote, remoteWins),
+    participants: (local, previous, remote, remoteWins) => mergeList(local.participants, previous, remote, remoteWins),
+    sessions: (local, previous, remote, remoteWins) => mergeRecord(local.sessions, previous, remote, remoteWins),
+    disconnectedAt: (local, previous, remote, remoteWins) => mergeRecord(local.disconnectedAt, previous, remote, remoteWins),
+};
+
+/**
+ * Store shared by several server instances. Every instance keeps all rooms in
+ * memory; saves send the fields of the room that changed to the other
+ * instances over the pub/sub transport and keep them there for instances
+ * that start later.
+ *
+ * Each field is versioned on its own, so instances changing different parts
+ * of a room at once (one adds to the queue while another posts to chat) both
+ * keep their change. When the same field is written at once, the higher
+ * version wins and ties go to the larger instance ID, so all instances settle
+ * on the same state. Chat messages, votes, upvotes and the queue are merged
+ * rather than replaced, as are participants and their sessions, and the
+ * current video stays on the same queue item.
+ */
+export function createSharedStore(pubsub: PubSub): RoomStore {
+    const instanceId = crypto.randomUUID();
+    const rooms = new Map<string, Room>();
+    const synced = new Map<string, SyncedFields>();
+    const expired = new Map<string, number>();
+    const pendingSaves = new Set<string>();
+    const pendingWrites = new Set<Promise<unknown>>();
+
+    function track(promise: Promise<unknown>) {
+        const tracked = promise
+            .catch(err => console.error('Failed to write to the shared room store:', err))
+            .finally(() => pendingWrites.delete(tracked));
+        pendingWrites.add(tracked);
+    }
+
+    function send(update: RoomUpdate) {
+        track(pubsub.publish(ROOMS_CHANNEL, JSON.stringify(update)));
+    }
+
+    function fieldKey(roomId: string, field: RoomField): string {
+        return `${ROOM_KEY}${roomId}:${field}`;
+    }
+
+    // Send the fields that changed since the last write, or all of them for
+    // a new room
+    function write(roomId: string, created = false) {
+        pendingSaves.delete(roomId);
+        const room = rooms.get(roomId);
+        if (!room) return;
+
+        const state = synced.get(roomId) || {};
+        synced.set(roomId, state);
+        const fields: Partial<Record<RoomField, FieldUpdate>> = {};
+        for (const [field, value] of Object.entries(serializeRoom(room)) as [RoomField, unknown][]) {
+            const json = JSON.stringify(value);
+            const current = state[field];
+            if (!created && current?.json === json) continue;
+
+            const version = { version: (current?.version ?? 0) + 1, origin: instanceId };
+            state[field] = { ...version, json };
+            fields[field] = { ...version, value };
+            if (current && FIELD_MERGES[field]) fields[field].previous = JSON.parse(current.json);
+            track(pubsub.set(fieldKey(roomId, field), JSON.stringify({ ...version, value })));
+        }
+
+        if (Object.keys(fields).length > 0) {
+            send({ type: 'patch', roomId, origin: instanceId, created, fields });
+        }
+    }
+
+    // A handler may save the same room several times; send it once
+    function scheduleWrite(roomId: string) {
+        if (!pendingSaves.has(roomId)) {
+            pendingSaves.add(roomId);
+            queueMicrotask(() => write(roomId));
+        }
+    }
+
+    function applyFields(roomId: string, fields: Partial<Record<RoomField, FieldUpdate>>, created: boolean) {
+        const room = rooms.get(roomId);
+        // A patch for a room this instance doesn't have was sent before the
+        // room was deleted here
+        if (!room && !created) return;
+
+        const state = synced.get(roomId) || {};
+        synced.set(roomId, state);
+        const local = room && serializeRoom(room);
+        // The current video as last synced, before this update
+        const syncedIndex: number = state.currentVideoIndex ? JSON.parse(state.currentVideoIndex.json) : local?.currentVideoIndex ?? 0;
+        const queueWins = fields.queue !== undefined && isNewer(fields.queue, state.queue);
+        const accepted: Partial<SerializedRoom> = {};
+        for (const [field, update] of Object.entries(fields) as [RoomField, FieldUpdate][]) {
+            const current = state[field];
+            const newer = isNewer(update, current);
+            const merge = FIELD_MERGES[field];
+            let value = update.value;
+            if (field === 'messages' && room) {
+                value = mergeMessages(room.messages, value as ChatMessage[]);
+            } else if (local && merge && update.previous !== undefined) {
+                value = merge(local, update.previous as never, value as never, newer);
+            } else if (!newer) {
+                continue;
+            }
+            const { version, origin } = newer || !current ? update : current;
+            state[field] = { version, origin, json: JSON.stringify(value) };
+            Object.assign(accepted, { [field]: value });
+        }
+
+        if (room && local) {
+            // Keep playing the same item when the merged queue moved it. If
+            // both sides changed the current item, the side whose queue won
+            // picks it, so every instance plays the same one
+            if (accepted.queue) {
+                const queueUpdate = fields.queue!;
+                const remoteIndex = (fields.currentVideoIndex?.value as number | undefined) ?? syncedIndex;
+                const previousId = (queueUpdate.previous as QueueItem[] | undefined)?.[syncedIndex]?.id;
+                const localId = local.queue[local.currentVideoIndex]?.id;
+                const remoteId = (queueUpdate.value as QueueItem[])[remoteIndex]?.id;
+                const remoteChanged = remoteId !== previousId;
+                const useRemote = remoteChanged && (queueWins || localId === previousId);
+                let index = accepted.queue.findIndex(item => item.id === (useRemote ? remoteId : localId));
+                if (index === -1) {
+                    // The current item was removed on the other side
+                    const fallback = queueWins ? remoteIndex : local.currentVideoIndex;
+                    index = Math.max(0, Math.min(fallback, accepted.queue.length - 1));
+                }
+                if (index !== (accepted.currentVideoIndex ?? local.currentVideoIndex)) {
+                    accepted.currentVideoIndex = index;
+                }
+                if (accepted.currentVideoIndex !== undefined) {
+                    const current = state.currentVideoIndex ?? { version: 0, origin: instanceId };
+                    state.currentVideoIndex = { ...current, json: JSON.stringify(accepted.currentVideoIndex) };
+                }
+            }
+            // Update in place; handlers may still hold the room object
+            Object.assign(room, deserializeRoom({ ...local, ...accepted }));
+        } else {
+            rooms.set(roomId, deserializeRoom(accepted));
+        }
+        expired.delete(roomId);
+    }
+
+    function handleUpdate(message: string) {
+        const update: RoomUpdate = JSON.parse(message);
+        if (update.origin === instanceId) return;
+
+        if (update.type === 'patch') {
+            applyFields(update.roomId, update.fields, update.created);
+        } else {
+            // Versions are kept so a delayed older patch can't bring the room back
+            rooms.delete(update.roomId);
+            if (update.type === 'expire') {
+                expired.set(update.roomId, update.expiredAt);
+            }
+        }
+    }
+
+    function forget(roomId: string) {
+        rooms.delete(roomId);
+        pendingSaves.delete(roomId);
+        for (const field of Object.keys(synced.get(roomId) || {})) {
+            track(pubsub.delete(fieldKey(roomId, field as RoomField)));
+        }
+    }
+
+    return {
+        async load() {
+            await pubsub.subscribe(ROOMS_CHANNEL, handleUpdate);
+
+            const stored = new Map<string, Partial<Record<RoomField, FieldUpdate>>>();
+            for (const key of await pubsub.keys(ROOM_KEY)) {
+                const raw = await pubsub.get(key);
+                if (!raw) continue;
+                const separator = key.lastIndexOf(':');
+                const roomId = key.slice(ROOM_KEY.length, separator);
+                const fields = stored.get(roomId) || {};
+                fields[key.slice(separator + 1) as RoomField] = JSON.parse(raw);
+                stored.set(roomId, fields);
+            }
+            for (const [roomId, fields] of stored) {
+                applyFields(roomId, fields, true);
+            }
+
+            for (const key of await pubsub.keys(EXPIRED_KEY)) {
+                const raw = await pubsub.get(key);
+                if (raw) expired.set(key.slice(EXPIRED_KEY.length), Number(raw));
+            }
+            console.log(`Loaded ${rooms.size} room(s) from the shared store`);
+        },
+        get: (roomId) => rooms.get(roomId),
+        set: (roomId, room) => {
+            rooms.set(roomId, room);
+            expired.delete(roomId);
+            write(roomId, true);
+        },
+        save: scheduleWrite,
+        delete: (roomId) => {
+            forget(roomId);
+            send({ type: 'delete', roomId, origin: instanceId });
+        },
+        entries: () => rooms.entries(),
+        flush: async () => {
+            for (const roomId of pendingSaves) write(roomId);
+            await Promise.all(pendingWrites);
+        },
+        expire: (roomId, now = Date.now()) => {
+            forget(roomId);
+            expired.set(roomId, now);
+            track(pubsub.set(EXPIRED_KEY + roomId, String(now)));
+            send({ type: 'expire', roomId, origin: instanceId, expiredAt: now });
+        },
+        getExpiredAt: (roomId) => expired.get(roomId),
+        pruneExpired: (before) => {
+            for (const [roomId, expiredAt] of expired) {
+                if (expiredAt < before) {
+                    expired.delete(roomId);
+                    track(pubsub.delete(EXPIRED_KEY + roomId));
+                }
+            }
+        },
+    };
+}
+
+/**
+ * Create the store selected by the ROOM_STORE environment variable
+ * ('file' by default, or 'memory'). With a pub/sub transport the rooms are
+ * shared between instances instead and ROOM_STORE is ignored.
+ */
+export function createRoomStore(env: NodeJS.ProcessEnv = process.env, pubsub: PubSub | null = null): RoomStore {
+    if (pubsub) {
+        return createSharedStore(pubsub);
+    }
+    if (env.ROOM_STORE === 'memory') {
+        return createMemoryStore();
+    }
+    const filePath = env.ROOM_STORE_PATH || path.join(process.cwd(), 'data', 'rooms.json');
+    return createFileStore(filePath);
+}
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import type { Room } from './roomStore';
+
+/**
+ * Participant sessions
+ *
+ * The server owns participant IDs. Each join returns a resume token that maps
+ * back to the participant, so a refreshing or reconnecting client reclaims
+ * its slot, votes and host status. Participants whose last socket went away
+ * stay in the room for a grace period before they are dropped.
+ */
+
+function createResumeToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+// Participant ID for a resume token, if the participant is still in the room
+export function claimSession(room: Room, resumeToken: string | undefined): string | null {
+    if (!resumeToken) return null;
+    const participantId = room.sessions[resumeToken];
+    if (!participantId || !room.participants.some(p => p.id === participantId)) {
+        return null;
+    }
+    return participantId;
+}
+
+export function createSession(room: Room, participantId: string): string {
+    const resumeToken = createResumeToken();
+    room.sessions[resumeToken] = participantId;
+    return resumeToken;
+}
+
+export function markConnected(room: Room, participantId: string): void {
+    delete room.disconnectedAt[participantId];
+}
+
+export function markDisconnected(room: Room, participantId: string, now = Date.now()): void {
+    room.disconnectedAt[participantId] = now;
+}
+
+// Remove a participant along with their resume tokens. Their vote is dropped
+// by the participant-left event (server/roomEvents.ts).
+export function removeParticipant(room: Room, participantId: string): void {
+    room.participants = room.participants.filter(p => p.id !== participantId);
+    delete room.disconnectedAt[participantId];
+    for (const [token, id] of Object.entries(room.sessions)) {
+        if (id === participantId) delete room.sessions[token];
+    }
+}
+
+/**
+ * Participants that have been disconnected for longer than `graceMs`. The
+ * caller removes them once it has checked that no other server instance
+ * still holds a socket for them.
+ */
+export function getStaleParticipants(room: Room, graceMs: number, now = Date.now()): string[] {
+    return Object.entries(room.disconnectedAt)
+        .filter(([, disconnectedAt]) => now - disconnectedAt >= graceMs)
+        .map(([participantId]) => participantId);
+}
@@ -0,0 +1,50 @@
+import { ClusterAdapterWithHeartbeat, type ClusterAdapterOptions, type ClusterMessage, type ClusterResponse } from 'socket.io-adapter';
+import type { Namespace } from 'socket.io';
+import type { PubSub } from './pubsub';
+
+/**
+ * socket.io adapter on top of a PubSub transport
+ *
+ * socket.io-adapter implements the cluster protocol (broadcasts, room
+ * membership changes, fetchSockets across instances); this class only moves
+ * its messages over the transport. Payloads are sent as JSON, so events must
+ * not carry binary data.
+ */
+class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+    private readonly channel: string;
+
+    constructor(nsp: Namespace, private readonly pubsub: PubSub, opts: ClusterAdapterOptions) {
+        super(nsp, opts);
+        this.channel = `hangout:socket.io#${nsp.name}#`;
+
+        pubsub.subscribe(this.channel, (message) => {
+            this.onMessage(JSON.parse(message));
+        });
+        pubsub.subscribe(this.responseChannel(this.uid), (message) => {
+            this.onResponse(JSON.parse(message));
+        });
+    }
+
+    private responseChannel(uid: string): string {
+        return `${this.channel}${uid}#`;
+    }
+
+    protected async doPublish(message: ClusterMessage): Promise<string> {
+        await this.pubsub.publish(this.channel, JSON.stringify(message));
+        // Offsets are only used for connection state recovery, which needs a
+        // persistent log; plain pub/sub has none
+        return '';
+    }
+
+    protected async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+        await this.pubsub.publish(this.responseChannel(requesterUid), JSON.stringify(response));
+    }
+}
+
+// Adapter factory for `io.adapter()`. socket.io calls it with `new`, so it
+// can't be an arrow function.
+export function createPubSubAdapter(pubsub: PubSub, opts: ClusterAdapterOptions = {}) {
+    return function (nsp: Namespace) {
+        return new PubSubAdapter(nsp, pubsub, opts);
+    };
+}
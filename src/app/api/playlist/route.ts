@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getPlaylistImportLimit, getPlaylistResolver } from '@/utils/playlist';
+
+// Look up a playlist's videos so they can be previewed and queued
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const playlistId = searchParams.get('list');
+
+    if (!playlistId || !/^[a-zA-Z0-9_-]{2,64}$/.test(playlistId)) {
+        return NextResponse.json({ error: 'Playlist ID required' }, { status: 400 });
+    }
+
+    const limit = getPlaylistImportLimit();
+    const playlist = await getPlaylistResolver().resolve(playlistId, limit);
+    if (!playlist || playlist.videos.length === 0) {
+        return NextResponse.json({ error: 'Playlist not found or empty' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...playlist, limit });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getRoomService } from '@/utils/roomService';
+import { isAdminRequest } from '@/utils/adminAuth';
+
+// Get a room's event log, and with `until` its state right after that event.
+// Room histories include chat from locked rooms, so this is admin-only.
+export async function GET(request: Request) {
+    if (!isAdminRequest(request)) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const roomId = searchParams.get('id');
+    const untilId = searchParams.get('until') || undefined;
+
+    if (!roomId) {
+        return NextResponse.json({ error: 'Room ID required' }, { status: 400 });
+    }
+
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Room history requires the socket server' }, { status: 503 });
+    }
+
+    const history = await roomService.getRoomHistory(roomId, untilId);
+    if (!history) {
+        const error = untilId ? 'Room or event not found' : 'Room not found';
+        return NextResponse.json({ error }, { status: 404 });
+    }
+
+    return NextResponse.json({ roomId, ...history });
+}
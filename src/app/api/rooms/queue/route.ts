@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { getRoomService } from '@/utils/roomService';
+import { isAdminRequest } from '@/utils/adminAuth';
+import { exportQueue, readQueueFile, type ImportedQueueFile } from '@/utils/queueFile';
+import { getPlaylistImportLimit } from '@/utils/playlist';
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// Download a room's queue as JSON (`format=json`, the default) or as a list
+// of URLs (`format=urls`). Locked rooms' queues are admin-only.
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const roomId = searchParams.get('id');
+    const format = searchParams.get('format') === 'urls' ? 'urls' : 'json';
+
+    if (!roomId) {
+        return NextResponse.json({ error: 'Room ID required' }, { status: 400 });
+    }
+
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Queue export requires the socket server' }, { status: 503 });
+    }
+
+    const queue = roomService.getQueue(roomId);
+    if (!queue) {
+        return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    if (roomService.getRoomInfo(roomId)?.isLocked && !isAdminRequest(request)) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+    }
+
+    const fileName = `queue-${roomId}.${format === 'urls' ? 'txt' : 'json'}`;
+    return new NextResponse(exportQueue(queue, format), {
+        headers: {
+            'Content-Type': format === 'urls' ? 'text/plain; charset=utf-8' : 'application/json',
+            'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        },
+    });
+}
+
+// Add the videos of a queue file in either format to the end of a room's
+// queue. Admin-only: it changes rooms without joining them, locked ones too.
+export async function POST(request: Request) {
+    if (!isAdminRequest(request)) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const roomId = searchParams.get('id');
+
+    if (!roomId) {
+        return NextResponse.json({ error: 'Room ID required' }, { status: 400 });
+    }
+
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Queue import requires the socket server' }, { status: 503 });
+    }
+
+    const text = await request.text();
+    if (text.length > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: 'File is too large' }, { status: 413 });
+    }
+
+    let file: ImportedQueueFile;
+    try {
+        // Videos past the import limit aren't looked up
+        file = await readQueueFile(text, getPlaylistImportLimit());
+    } catch (error) {
+        console.error('Failed to read queue file:', error);
+        return NextResponse.json({ error: 'Could not read the file' }, { status: 400 });
+    }
+
+    const { items, skipped, overLimit } = file;
+    if (items.length === 0) {
+        return NextResponse.json({ error: 'No YouTube videos found', skipped }, { status: 400 });
+    }
+
+    const result = await roomService.importQueue(roomId, items);
+    if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const rejection = result.rejection && { violation: result.rejection.violation, videos: result.rejection.videos };
+    if (result.added === 0 && result.rejection) {
+        // Every video was refused by the room's queue policies
+        return NextResponse.json({ error: result.rejection.message, code: 'queue-policy', rejection, skipped, overLimit }, { status: 409 });
+    }
+
+    return NextResponse.json({ roomId, added: result.added, skipped, overLimit, ...(rejection && { rejection }) });
+}
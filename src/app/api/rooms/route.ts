@@ -1,17 +1,78 @@
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
+import { getRoomService } from '@/utils/roomService';
+import { isAdminRequest } from '@/utils/adminAuth';
 
-// Create a new room
-export async function POST() {
+const MAX_INVITES = 50;
+const MAX_INVITE_TTL_HOURS = 24 * 30;
+
+interface CreateRoomBody {
+    password?: unknown;
+    inviteOnly?: unknown;
+    invites?: unknown;
+    inviteTtlHours?: unknown;
+}
+
+// Create a new room, optionally locked with a password and/or invite tokens
+export async function POST(request: Request) {
     const roomId = uuidv4();
 
+    let body: CreateRoomBody = {};
+    try {
+        body = await request.json();
+    } catch {
+        // No body: an open room
+    }
+
+    const password = typeof body.password === 'string' ? body.password.trim() : '';
+    const inviteOnly = body.inviteOnly === true;
+    const inviteCount = typeof body.invites === 'number' ? Math.floor(body.invites) : 0;
+    const inviteTtlHours = typeof body.inviteTtlHours === 'number' ? body.inviteTtlHours : 24;
+
+    if (password.length > 128) {
+        return NextResponse.json({ error: 'Password is too long' }, { status: 400 });
+    }
+    if (inviteCount < 0 || inviteCount > MAX_INVITES) {
+        return NextResponse.json({ error: `Invites must be between 0 and ${MAX_INVITES}` }, { status: 400 });
+    }
+    if (!(inviteTtlHours > 0 && inviteTtlHours <= MAX_INVITE_TTL_HOURS)) {
+        return NextResponse.json({ error: `Invite lifetime must be between 1 and ${MAX_INVITE_TTL_HOURS} hours` }, { status: 400 });
+    }
+
+    const isLocked = Boolean(password) || inviteOnly;
+    const roomService = getRoomService();
+
+    if (!roomService) {
+        if (isLocked) {
+            return NextResponse.json({ error: 'Locked rooms require the socket server' }, { status: 503 });
+        }
+        return NextResponse.json({
+            roomId,
+            url: `/room/${roomId}`,
+        });
+    }
+
+    // A locked room always gets at least one invite so its creator can get in
+    const { invites } = await roomService.createRoom(roomId, {
+        password: password || undefined,
+        inviteOnly,
+        inviteCount: isLocked ? Math.max(1, inviteCount) : inviteCount,
+        inviteTtlMs: inviteTtlHours * 60 * 60 * 1000,
+    });
+    const inviteUrls = invites.map(invite => ({
+        url: `/room/${roomId}?invite=${invite.token}`,
+        expiresAt: invite.expiresAt,
+    }));
+
     return NextResponse.json({
         roomId,
-        url: `/room/${roomId}`,
+        url: inviteUrls[0]?.url ?? `/room/${roomId}`,
+        isLocked,
+        invites: inviteUrls,
     });
 }
 
-// Get room info (for validation)
+// Get room info: whether it exists, who's there and what's playing
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const roomId = searchParams.get('id');
@@ -20,16 +81,26 @@ export async function GET(request: Request) {
         return NextResponse.json({ error: 'Room ID required' }, { status: 400 });
     }
 
-    // In a production app, you'd validate the room exists in a database
-    // For now, we just confirm the format is valid
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Room lookup requires the socket server' }, { status: 503 });
+    }
 
-    if (!uuidRegex.test(roomId)) {
-        return NextResponse.json({ error: 'Invalid room ID' }, { status: 400 });
+    const info = roomService.getRoomInfo(roomId);
+    if (!info) {
+        const expiredAt = roomService.getExpiredAt(roomId);
+        return NextResponse.json({
+            roomId,
+            exists: false,
+            ...(expiredAt ? { expired: true, expiredAt } : {}),
+        }, { status: 404 });
     }
 
+    // What a locked room is playing is only for its participants and admins
+    const currentVideo = info.isLocked && !isAdminRequest(request) ? null : info.currentVideo;
     return NextResponse.json({
-        roomId,
+        ...info,
+        currentVideo,
         exists: true,
     });
 }
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getRoomService } from '@/utils/roomService';
+import { isAdminRequest } from '@/utils/adminAuth';
+
+// Get the videos a room played, oldest first. Participants of a locked room
+// get them over the socket; here only admins can see them.
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const roomId = searchParams.get('id');
+
+    if (!roomId) {
+        return NextResponse.json({ error: 'Room ID required' }, { status: 400 });
+    }
+
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Watch history requires the socket server' }, { status: 503 });
+    }
+
+    const history = roomService.getWatchHistory(roomId);
+    if (!history) {
+        return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+    if (roomService.getRoomInfo(roomId)?.isLocked && !isAdminRequest(request)) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ roomId, history });
+}
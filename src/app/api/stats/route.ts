@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getRoomService } from '@/utils/roomService';
+
+// Room counters for monitoring
+export async function GET() {
+    const roomService = getRoomService();
+    if (!roomService) {
+        return NextResponse.json({ error: 'Stats require the socket server' }, { status: 503 });
+    }
+
+    return NextResponse.json(roomService.getStats());
+}
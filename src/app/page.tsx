@@ -7,12 +7,30 @@ export default function Home() {
   const router = useRouter();
   const [isCreating, setIsCreating] = useState(false);
   const [joinCode, setJoinCode] = useState('');
+  const [roomPassword, setRoomPassword] = useState('');
+  const [inviteOnly, setInviteOnly] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
 
   const handleCreateRoom = async () => {
     setIsCreating(true);
+    setCreateError(null);
     try {
-      const response = await fetch('/api/rooms', { method: 'POST' });
+      const response = await fetch('/api/rooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          password: roomPassword || undefined,
+          inviteOnly,
+        }),
+      });
       const data = await response.json();
+      if (!response.ok) {
+        setCreateError(data.error || 'Failed to create room');
+        setIsCreating(false);
+        return;
+      }
       router.push(data.url);
     } catch (error) {
       console.error('Failed to create room:', error);
@@ -20,7 +38,7 @@ export default function Home() {
     }
   };
 
-  const handleJoinRoom = () => {
+  const handleJoinRoom = async () => {
     if (joinCode.trim()) {
       // Support both full URLs and just the room ID
       let roomId = joinCode.trim();
@@ -30,9 +48,28 @@ export default function Home() {
         roomId = roomId.split('/room/').pop() || '';
       }
 
-      if (roomId) {
-        router.push(`/room/${roomId}`);
+      // Keep the query string so pasted invite links still work
+      const [id, query] = roomId.split('?');
+      if (!id) return;
+
+      setIsJoining(true);
+      setJoinError(null);
+      try {
+        const response = await fetch(`/api/rooms?id=${encodeURIComponent(id)}`);
+        if (response.status === 404) {
+          const data = await response.json();
+          setJoinError(data.expired
+            ? 'This room has expired. Create a new room to keep watching.'
+            : 'Room not found. Check the link or ask for a new one.');
+          setIsJoining(false);
+          return;
+        }
+      } catch (error) {
+        // Lookup unavailable; let the room page sort it out
+        console.error('Failed to look up room:', error);
       }
+
+      router.push(`/room/${id}${query ? `?${query}` : ''}`);
     }
   };
 
@@ -75,6 +112,26 @@ export default function Home() {
             <p className="text-gray-400 text-sm mb-6">
               Start a new hangout session and invite your friends with a shareable link.
             </p>
+            <div className="space-y-3 mb-4">
+              <input
+                type="password"
+                value={roomPassword}
+                onChange={(e) => setRoomPassword(e.target.value)}
+                placeholder="Password (optional)"
+                className="glass-input w-full px-4 py-2 text-sm"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={inviteOnly}
+                  onChange={(e) => setInviteOnly(e.target.checked)}
+                />
+                Invite-only (join with invite links)
+              </label>
+            </div>
+            {createError && (
+              <p className="text-red-400 text-sm mb-3">{createError}</p>
+            )}
             <button
               onClick={handleCreateRoom}
               disabled={isCreating}
@@ -106,19 +163,25 @@ export default function Home() {
               <input
                 type="text"
                 value={joinCode}
-                onChange={(e) => setJoinCode(e.target.value)}
+                onChange={(e) => {
+                  setJoinCode(e.target.value);
+                  setJoinError(null);
+                }}
                 onKeyDown={(e) => e.key === 'Enter' && handleJoinRoom()}
                 placeholder="Paste room link..."
                 className="glass-input flex-1 px-4 py-3 text-sm"
               />
               <button
                 onClick={handleJoinRoom}
-                disabled={!joinCode.trim()}
+                disabled={!joinCode.trim() || isJoining}
                 className="btn btn-secondary disabled:opacity-50"
               >
-                Join
+                {isJoining ? <div className="spinner w-5 h-5" /> : 'Join'}
               </button>
             </div>
+            {joinError && (
+              <p className="text-red-400 text-sm mt-3">{joinError}</p>
+            )}
           </div>
         </div>
 
@@ -2,23 +2,31 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { v4 as uuidv4 } from 'uuid';
 import { RoomProvider, useRoom } from '@/context/RoomContext';
 import { useSocket } from '@/hooks/useSocket';
 import YouTubePlayer from '@/components/YouTubePlayer';
 import VideoChat from '@/components/VideoChat';
 import Chat from '@/components/Chat';
 import Queue from '@/components/Queue';
+import RoomSettings from '@/components/RoomSettings';
+import { loadSession } from '@/utils/session';
+
+// Invite token from an invite link (?invite=...)
+function getInviteToken(): string | undefined {
+    return new URLSearchParams(window.location.search).get('invite') || undefined;
+}
 
 function RoomContent() {
     const params = useParams();
     const router = useRouter();
     const roomId = params.id as string;
     const { state, dispatch } = useRoom();
-    const { isConnected, joinRoom } = useSocket(roomId);
+    const { isConnected, joinRoom, leaveRoom, createInvite } = useSocket(roomId);
     const [userName, setUserName] = useState('');
-    const [hasJoined, setHasJoined] = useState(false);
+    const [password, setPassword] = useState('');
+    const [isJoining, setIsJoining] = useState(false);
     const [showCopied, setShowCopied] = useState(false);
+    const [showSettings, setShowSettings] = useState(false);
 
     // Set room ID in context
     useEffect(() => {
@@ -27,32 +35,66 @@ function RoomContent() {
         }
     }, [roomId, dispatch]);
 
+    // Resume a stored session (e.g. after a refresh) without asking for a name
+    // again; the room opens once the server confirms the join
+    useEffect(() => {
+        const session = loadSession(roomId);
+        if (session) {
+            joinRoom({ name: session.name, isMuted: false, isCameraOff: false }, { inviteToken: getInviteToken() });
+        }
+    }, [roomId, joinRoom]);
+
+    // Hide a refused-event notice after a few seconds
+    useEffect(() => {
+        if (!state.socketError) return;
+        const timer = setTimeout(() => dispatch({ type: 'SET_SOCKET_ERROR', payload: null }), 5000);
+        return () => clearTimeout(timer);
+    }, [state.socketError, dispatch]);
+
     // Handle join
     const handleJoin = () => {
         if (!userName.trim()) return;
 
         const participant = {
-            id: uuidv4(),
             name: userName.trim(),
-            isHost: state.participants.length === 0,
             isMuted: false,
             isCameraOff: false,
         };
 
-        joinRoom(participant);
-        setHasJoined(true);
+        joinRoom(participant, {
+            password: password || undefined,
+            inviteToken: getInviteToken(),
+        });
+        setIsJoining(true);
     };
 
-    // Copy room link
-    const copyRoomLink = () => {
-        const url = window.location.href;
+    // Leave explicitly so the participant slot is freed right away
+    const handleLeave = () => {
+        leaveRoom();
+        router.push('/');
+    };
+
+    // Copy room link; hosts of locked rooms share a fresh invite instead
+    const copyRoomLink = async () => {
+        let url = `${window.location.origin}/room/${roomId}`;
+        if (state.isLocked && state.localParticipant?.isHost) {
+            const invite = await createInvite();
+            if (invite) {
+                url += `?invite=${invite.token}`;
+            }
+        }
         navigator.clipboard.writeText(url);
         setShowCopied(true);
         setTimeout(() => setShowCopied(false), 2000);
     };
 
-    // Join modal
-    if (!hasJoined) {
+    // Join modal, shown until the server confirms the join
+    if (!state.localParticipant) {
+        const isWaiting = isJoining && !state.joinError;
+        // Too many attempts keep the password field for the next one
+        const needsPassword = state.joinError?.reason === 'password-required' || state.joinError?.reason === 'invalid-password'
+            || (state.joinError?.reason === 'throttled' && password !== '');
+
         return (
             <div className="min-h-screen flex items-center justify-center px-4">
                 <div className="glass-card p-8 w-full max-w-md animate-fade-in">
@@ -66,6 +108,12 @@ function RoomContent() {
                         <p className="text-gray-400 text-sm">Enter your name to join the session</p>
                     </div>
 
+                    {state.joinError && (
+                        <div className="mb-4 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                            {state.joinError.message}
+                        </div>
+                    )}
+
                     <div className="space-y-4">
                         <div>
                             <label className="block text-sm font-medium mb-2 text-gray-300">
@@ -82,12 +130,36 @@ function RoomContent() {
                             />
                         </div>
 
+                        {needsPassword && (
+                            <div>
+                                <label className="block text-sm font-medium mb-2 text-gray-300">
+                                    Room Password
+                                </label>
+                                <input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+                                    placeholder="Enter the room password..."
+                                    className="glass-input w-full px-4 py-3"
+                                    autoFocus
+                                />
+                            </div>
+                        )}
+
                         <button
                             onClick={handleJoin}
-                            disabled={!userName.trim()}
+                            disabled={!userName.trim() || isWaiting}
                             className="btn btn-primary w-full disabled:opacity-50"
                         >
-                            Join Room
+                            {isWaiting ? (
+                                <>
+                                    <div className="spinner w-5 h-5" />
+                                    Joining...
+                                </>
+                            ) : (
+                                'Join Room'
+                            )}
                         </button>
 
                         <button
@@ -108,7 +180,7 @@ function RoomContent() {
             <header className="glass border-b border-white/10 px-4 py-3 flex items-center justify-between flex-shrink-0 z-10">
                 <div className="flex items-center gap-4">
                     <button
-                        onClick={() => router.push('/')}
+                        onClick={handleLeave}
                         className="p-2 rounded-lg hover:bg-white/10 transition-colors"
                     >
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -128,7 +200,20 @@ function RoomContent() {
                     </div>
                 </div>
 
-                <div className="flex items-center gap-2">
+                <div className="relative flex items-center gap-2">
+                    {state.localParticipant.isHost && (
+                        <button
+                            onClick={() => setShowSettings(!showSettings)}
+                            className="btn btn-secondary text-sm py-2"
+                            title="Room settings"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                            </svg>
+                        </button>
+                    )}
+
                     <button
                         onClick={copyRoomLink}
                         className="btn btn-secondary text-sm py-2"
@@ -149,6 +234,10 @@ function RoomContent() {
                             </span>
                         )}
                     </button>
+
+                    {showSettings && state.localParticipant.isHost && (
+                        <RoomSettings roomId={roomId} onClose={() => setShowSettings(false)} />
+                    )}
                 </div>
             </header>
 
@@ -181,6 +270,20 @@ function RoomContent() {
                 </div>
 
             </main>
+
+            {/* Notice for events the server refused; the queue panel shows queue policy refusals itself */}
+            {state.socketError && state.socketError.code !== 'queue-policy' && (
+                <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm backdrop-blur animate-fade-in">
+                    <span>{state.socketError.message}</span>
+                    <button
+                        onClick={() => dispatch({ type: 'SET_SOCKET_ERROR', payload: null })}
+                        className="text-red-300 hover:text-white"
+                        title="Dismiss"
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,9 +1,8 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { useRoom, ChatMessage } from '@/context/RoomContext';
+import { useRoom } from '@/context/RoomContext';
 import { useSocket } from '@/hooks/useSocket';
-import { v4 as uuidv4 } from 'uuid';
 
 interface ChatProps {
     roomId: string;
@@ -39,15 +38,7 @@ export default function Chat({ roomId }: ChatProps) {
 
         if (!inputValue.trim()) return;
 
-        const message: ChatMessage = {
-            id: uuidv4(),
-            senderId: state.localParticipant?.id || 'anon',
-            senderName: state.localParticipant?.name || 'Guest',
-            content: inputValue.trim(),
-            timestamp: Date.now(),
-        };
-
-        sendMessage(message);
+        sendMessage(inputValue.trim());
         setInputValue('');
     };
 
@@ -3,7 +3,20 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRoom } from '@/context/RoomContext';
 import { useSocket } from '@/hooks/useSocket';
-import { extractVideoId, getVideoInfo, getThumbnailUrl } from '@/utils/youtube';
+import {
+    extractVideoId,
+    extractPlaylistId,
+    extractClipRange,
+    parseTimestamp,
+    formatDuration,
+    getVideoInfo,
+    getThumbnailUrl,
+} from '@/utils/youtube';
+import type { ResolvedPlaylist } from '@/utils/playlist';
+import { exportQueue, readQueueFile, type QueueFileFormat } from '@/utils/queueFile';
+import type { NewQueueItem, SocketError } from '@/shared/protocol';
+import { getContributor, getUpNextIndex, isValidClip } from '@/shared/queue';
+import type { PlayedItem, QueueItem } from '@/context/RoomContext';
 import { v4 as uuidv4 } from 'uuid';
 
 interface SearchResult {
@@ -15,13 +28,40 @@ interface SearchResult {
     viewCount: string;
 }
 
+// What /api/playlist returns
+interface PlaylistPreview extends ResolvedPlaylist {
+    limit: number;
+}
+
 interface QueueProps {
     roomId: string;
 }
 
+// Why the server left out videos we queued, worded for the queue panel
+function describeRejection({ violation, videos }: NonNullable<SocketError['rejection']>): string {
+    const reason = violation.policy === 'pending-limit'
+        ? `je hebt al ${violation.limit} video's in de wachtrij staan`
+        : violation.policy === 'max-duration'
+            ? `"${violation.title}" duurt langer dan ${violation.maxMinutes} minuten`
+            : `"${violation.title}" staat al in de wachtrij of is net afgespeeld`;
+    return videos > 1 ? `${videos} video's niet toegevoegd: ${reason}` : `Niet toegevoegd: ${reason}`;
+}
+
 export default function Queue({ roomId }: QueueProps) {
     const { state, dispatch } = useRoom();
-    const { addToQueue, removeFromQueue, changeVideo } = useSocket(roomId);
+    const {
+        addToQueue,
+        addManyToQueue,
+        removeFromQueue,
+        setClip,
+        moveInQueue,
+        upvoteInQueue,
+        changeVideo,
+        savePlaylist,
+        // loadPlaylist is the YouTube playlist preview below
+        loadPlaylist: loadSavedPlaylist,
+        deletePlaylist,
+    } = useSocket(roomId);
     const [inputValue, setInputValue] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isSearching, setIsSearching] = useState(false);
@@ -30,6 +70,40 @@ export default function Queue({ roomId }: QueueProps) {
     const [showResults, setShowResults] = useState(false);
     const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Playlist import: the pasted playlist and the positions of the videos picked from it
+    const [playlist, setPlaylist] = useState<PlaylistPreview | null>(null);
+    const [selectedVideos, setSelectedVideos] = useState<Set<number>>(new Set());
+    // Drag and drop: the item being dragged and the position it would land on
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const itemRefs = useRef(new Map<string, HTMLDivElement>());
+    // Clip editing: the item being edited and its start and end as typed
+    const [editingClipId, setEditingClipId] = useState<string | null>(null);
+    const [clipStart, setClipStart] = useState('');
+    const [clipEnd, setClipEnd] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
+    // Saved playlists: whether the section is open and the name to save the queue under
+    const [showPlaylists, setShowPlaylists] = useState(false);
+    const [playlistName, setPlaylistName] = useState('');
+    const isHost = state.localParticipant?.isHost ?? false;
+    // Videos the room's queue policies refused, shown here rather than by the room page
+    const rejection = state.socketError?.code === 'queue-policy' ? state.socketError.rejection : undefined;
+    // Outside manual order the server sorts the queue, so it can't be moved by hand
+    const isManualOrder = state.settings.queue.order === 'manual';
+    const isUpvoteOrder = state.settings.queue.order === 'votes';
+
+    // Taking turns: the round each upcoming video plays in, and whose turn is next
+    const rounds = new Map<string, number>();
+    if (state.settings.queue.order === 'round-robin') {
+        const turnsTaken = new Map<string, number>();
+        for (const item of state.queue.slice(state.currentVideoIndex + 1)) {
+            const round = (turnsTaken.get(getContributor(item)) ?? 0) + 1;
+            turnsTaken.set(getContributor(item), round);
+            rounds.set(item.id, round);
+        }
+    }
+    const nextTurn = rounds.size > 0 ? state.queue[state.currentVideoIndex + 1]?.addedBy : undefined;
 
     // Search for videos
     const searchVideos = useCallback(async (query: string) => {
@@ -39,8 +113,7 @@ export default function Queue({ roomId }: QueueProps) {
         }
 
         // Check if it's a URL first
-        const videoId = extractVideoId(query);
-        if (videoId) {
+        if (extractVideoId(query) || extractPlaylistId(query)) {
             setSearchResults([]);
             setShowResults(false);
             return;
@@ -73,7 +146,7 @@ export default function Queue({ roomId }: QueueProps) {
             clearTimeout(searchTimeoutRef.current);
         }
 
-        if (inputValue.trim().length >= 2 && !extractVideoId(inputValue)) {
+        if (inputValue.trim().length >= 2 && !extractVideoId(inputValue) && !extractPlaylistId(inputValue)) {
             searchTimeoutRef.current = setTimeout(() => {
                 searchVideos(inputValue);
             }, 500);
@@ -114,6 +187,8 @@ export default function Queue({ roomId }: QueueProps) {
                 title: result.title,
                 thumbnail: result.thumbnail,
                 addedBy: state.localParticipant?.name || 'You',
+                addedById: state.localParticipant?.id,
+                addedAt: Date.now(),
                 duration: result.duration,
             };
 
@@ -126,10 +201,120 @@ export default function Queue({ roomId }: QueueProps) {
         }
     };
 
+    // Look up a pasted playlist and preview it with every video picked
+    const loadPlaylist = async (playlistId: string) => {
+        setIsLoading(true);
+        setError(null);
+        setShowResults(false);
+
+        try {
+            const response = await fetch(`/api/playlist?list=${encodeURIComponent(playlistId)}`);
+            if (!response.ok) {
+                setError('Afspeellijst niet gevonden');
+                return;
+            }
+
+            const data: PlaylistPreview = await response.json();
+            setPlaylist(data);
+            setSelectedVideos(new Set(data.videos.map((_, index) => index)));
+            setInputValue('');
+        } catch {
+            setError('Kon afspeellijst niet laden');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Queue several videos with one update from the server
+    const queueVideos = (videos: NewQueueItem[]) => {
+        for (const video of videos) {
+            dispatch({
+                type: 'ADD_TO_QUEUE',
+                payload: {
+                    ...video,
+                    id: uuidv4(),
+                    addedBy: state.localParticipant?.name || 'You',
+                    addedById: state.localParticipant?.id,
+                    addedAt: Date.now(),
+                },
+            });
+        }
+        addManyToQueue(videos);
+    };
+
+    // Queue the whole previewed playlist, or only the picked videos
+    const handleAddPlaylist = (pickedOnly: boolean) => {
+        if (!playlist) return;
+
+        const videos = playlist.videos.filter((_, index) => !pickedOnly || selectedVideos.has(index));
+        if (videos.length === 0) return;
+
+        queueVideos(videos);
+        setPlaylist(null);
+    };
+
+    // Download the queue as a file. It's built here rather than by the export
+    // route, which only serves locked rooms to admins.
+    const handleExport = (format: QueueFileFormat) => {
+        const type = format === 'urls' ? 'text/plain;charset=utf-8' : 'application/json';
+        const url = URL.createObjectURL(new Blob([exportQueue(state.queue, format)], { type }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `queue-${roomId}.${format === 'urls' ? 'txt' : 'json'}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Import a queue exported from this or another room (JSON or a list of URLs)
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            // The server refuses more than its import limit at once
+            const { items, skipped, overLimit } = await readQueueFile(await file.text(), state.importLimit);
+            if (items.length === 0) {
+                setError('Geen YouTube-video\'s gevonden in dit bestand');
+                return;
+            }
+
+            queueVideos(items);
+            if (overLimit > 0) {
+                setError(`Alleen de eerste ${items.length} video's toegevoegd; ${overLimit} meer passen niet in één import`);
+            } else if (skipped > 0) {
+                setError(`${skipped} regel(s) overgeslagen: geen YouTube-video`);
+            }
+        } catch {
+            setError('Kon bestand niet lezen');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const togglePlaylistVideo = (index: number) => {
+        setSelectedVideos(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
     // Add video from URL
     const handleAddFromUrl = async () => {
         if (!inputValue.trim()) return;
 
+        // Playlist links (also a video played from a playlist) open the import preview
+        const playlistId = extractPlaylistId(inputValue);
+        if (playlistId) {
+            await loadPlaylist(playlistId);
+            return;
+        }
+
         const videoId = extractVideoId(inputValue);
         if (!videoId) {
             // Not a URL, might be a search - show error
@@ -155,6 +340,10 @@ export default function Queue({ roomId }: QueueProps) {
                 title: info.title,
                 thumbnail: info.thumbnail,
                 addedBy: state.localParticipant?.name || 'You',
+                addedById: state.localParticipant?.id,
+                addedAt: Date.now(),
+                // Keep the timestamp of links like youtu.be/ID?t=90
+                ...extractClipRange(inputValue.trim()),
             };
 
             dispatch({ type: 'ADD_TO_QUEUE', payload: queueItem });
@@ -172,6 +361,88 @@ export default function Queue({ roomId }: QueueProps) {
         removeFromQueue(itemId);
     };
 
+    // Queue a video from the watch history again, with the same clip
+    const handleRequeue = (entry: PlayedItem) => {
+        const queueItem = {
+            id: uuidv4(),
+            videoId: entry.videoId,
+            title: entry.title,
+            thumbnail: entry.thumbnail,
+            duration: entry.duration,
+            startAt: entry.startAt,
+            endAt: entry.endAt,
+            addedBy: state.localParticipant?.name || 'You',
+            addedById: state.localParticipant?.id,
+            addedAt: Date.now(),
+        };
+
+        dispatch({ type: 'ADD_TO_QUEUE', payload: queueItem });
+        addToQueue(queueItem);
+    };
+
+    // Saving under the name of a saved playlist overwrites it
+    const handleSavePlaylist = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = playlistName.trim();
+        if (!name || state.queue.length === 0) return;
+        savePlaylist(name);
+        setPlaylistName('');
+    };
+
+    const handleReplaceQueue = (playlistId: string, name: string) => {
+        if (window.confirm(`De wachtrij vervangen door "${name}"?`)) {
+            loadSavedPlaylist(playlistId, 'replace');
+        }
+    };
+
+    const formatPlayedAt = (playedAt: number) => {
+        return new Date(playedAt).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+    };
+
+    const startEditingClip = (item: QueueItem) => {
+        setEditingClipId(item.id);
+        setClipStart(item.startAt !== undefined ? formatDuration(item.startAt) : '');
+        setClipEnd(item.endAt !== undefined ? formatDuration(item.endAt) : '');
+        setError(null);
+    };
+
+    // Empty fields clear that end of the clip
+    const handleSaveClip = (itemId: string) => {
+        const startAt = clipStart.trim() ? parseTimestamp(clipStart) : undefined;
+        const endAt = clipEnd.trim() ? parseTimestamp(clipEnd) : undefined;
+        if (startAt === null || endAt === null) {
+            setError('Gebruik tijden als 1:30 of 90');
+            return;
+        }
+        if (!isValidClip({ startAt, endAt })) {
+            setError('Het einde moet na het begin liggen');
+            return;
+        }
+
+        setClip(itemId, startAt, endAt);
+        setEditingClipId(null);
+        setError(null);
+    };
+
+    const handleMove = (itemId: string, toIndex: number) => {
+        if (toIndex < 0 || toIndex >= state.queue.length) return;
+        dispatch({ type: 'MOVE_QUEUE_ITEM', payload: { itemId, toIndex } });
+        moveInQueue(itemId, toIndex);
+    };
+
+    // Alt+Up/Down moves the focused item; focus stays on it
+    const handleItemKeyDown = (e: React.KeyboardEvent, itemId: string, index: number) => {
+        if (!isManualOrder || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+        e.preventDefault();
+        handleMove(itemId, e.key === 'ArrowUp' ? index - 1 : index + 1);
+        requestAnimationFrame(() => itemRefs.current.get(itemId)?.focus());
+    };
+
+    const endDrag = () => {
+        setDraggedId(null);
+        setDropIndex(null);
+    };
+
     const handleSelectVideo = (index: number) => {
         dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: index });
         changeVideo(index);
@@ -203,6 +474,55 @@ export default function Queue({ roomId }: QueueProps) {
                         ({state.queue.length})
                     </span>
                 </h2>
+                <div className="flex items-center gap-1 min-w-0">
+                    {nextTurn && (
+                        <span className="text-xs text-gray-400 truncate mr-1">
+                            Aan de beurt: <span className="text-indigo-300">{nextTurn}</span>
+                        </span>
+                    )}
+
+                    {/* Export / Import */}
+                    {state.queue.length > 0 && (
+                        <>
+                            <button
+                                onClick={() => handleExport('json')}
+                                title="Exporteren als JSON"
+                                aria-label="Exporteren als JSON"
+                                className="p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors text-xs font-mono"
+                            >
+                                {'{}'}
+                            </button>
+                            <button
+                                onClick={() => handleExport('urls')}
+                                title="Exporteren als URL-lijst"
+                                aria-label="Exporteren als URL-lijst"
+                                className="p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                </svg>
+                            </button>
+                        </>
+                    )}
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isLoading}
+                        title="Wachtrij importeren"
+                        aria-label="Wachtrij importeren"
+                        className="p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors disabled:opacity-50"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                        </svg>
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,.txt,application/json,text/plain"
+                        onChange={handleImportFile}
+                        className="hidden"
+                    />
+                </div>
             </div>
 
             {/* Search Input */}
@@ -274,10 +594,76 @@ export default function Queue({ roomId }: QueueProps) {
                 )}
             </div>
 
+            {/* Playlist Import Preview */}
+            {playlist && (
+                <div className="mb-4 glass-card border border-white/10 p-3">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{playlist.title}</p>
+                            <p className="text-xs text-gray-500">
+                                {playlist.total > playlist.videos.length
+                                    ? `Eerste ${playlist.videos.length} van ${playlist.total} video's`
+                                    : `${playlist.videos.length} video's`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => setPlaylist(null)}
+                            className="p-1 rounded hover:bg-white/10 text-gray-400 flex-shrink-0"
+                            title="Sluiten"
+                            aria-label="Sluiten"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+
+                    <div className="max-h-48 overflow-y-auto space-y-1 mb-3">
+                        {playlist.videos.map((video, index) => (
+                            <label
+                                key={`${video.videoId}-${index}`}
+                                className="flex items-center gap-2 p-1 rounded hover:bg-white/5 cursor-pointer text-sm"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selectedVideos.has(index)}
+                                    onChange={() => togglePlaylistVideo(index)}
+                                />
+                                <img
+                                    src={video.thumbnail}
+                                    alt=""
+                                    className="w-12 h-7 rounded object-cover flex-shrink-0"
+                                />
+                                <span className="flex-1 truncate">{video.title}</span>
+                                {video.duration && (
+                                    <span className="text-xs text-gray-500 flex-shrink-0">{video.duration}</span>
+                                )}
+                            </label>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleAddPlaylist(true)}
+                            disabled={selectedVideos.size === 0}
+                            className="btn btn-secondary flex-1 text-sm py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Selectie toevoegen ({selectedVideos.size})
+                        </button>
+                        <button
+                            onClick={() => handleAddPlaylist(false)}
+                            className="btn btn-primary flex-1 text-sm py-2"
+                        >
+                            Alles toevoegen
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Error Message */}
-            {error && (
-                <div className="mb-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
-                    {error}
+            {(error || rejection) && (
+                <div className="mb-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm" role="alert">
+                    {error || (rejection && describeRejection(rejection))}
                 </div>
             )}
 
@@ -294,11 +680,47 @@ export default function Queue({ roomId }: QueueProps) {
                 ) : (
                     state.queue.map((item, index) => {
                         const isActive = index === state.currentVideoIndex;
+                        const isUpNext = index === state.currentVideoIndex + 1;
+                        const hasPlayed = index < state.currentVideoIndex;
+                        const draggedIndex = state.queue.findIndex(queued => queued.id === draggedId);
+                        const dropClass = dropIndex === index && draggedIndex !== -1 && draggedIndex !== index
+                            ? (draggedIndex < index ? 'drop-after' : 'drop-before')
+                            : '';
+                        const voters = state.upvotes[item.id] || [];
+                        const hasUpvoted = Boolean(state.localParticipant && voters.includes(state.localParticipant.id));
+                        const voterNames = voters
+                            .map(id => state.participants.find(p => p.id === id)?.name)
+                            .filter(Boolean)
+                            .join(', ');
 
                         return (
                             <div
                                 key={item.id}
-                                className={`queue-item ${isActive ? 'active' : ''} cursor-default`}
+                                ref={(element) => {
+                                    if (element) itemRefs.current.set(item.id, element);
+                                    else itemRefs.current.delete(item.id);
+                                }}
+                                tabIndex={0}
+                                draggable={isManualOrder && editingClipId !== item.id}
+                                aria-keyshortcuts={isManualOrder ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
+                                className={`queue-item ${isActive ? 'active' : ''} ${draggedId === item.id ? 'dragging' : ''} ${dropClass} ${isManualOrder ? '' : 'cursor-default'} ${hasPlayed ? 'opacity-60' : ''}`}
+                                onKeyDown={(e) => handleItemKeyDown(e, item.id, index)}
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    e.dataTransfer.setData('text/plain', item.id);
+                                    setDraggedId(item.id);
+                                }}
+                                onDragOver={(e) => {
+                                    if (!draggedId) return;
+                                    e.preventDefault();
+                                    setDropIndex(index);
+                                }}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    if (draggedId) handleMove(draggedId, index);
+                                    endDrag();
+                                }}
+                                onDragEnd={endDrag}
                             >
                                 {/* Position Number */}
                                 <span className="w-6 text-center text-sm text-gray-500 flex-shrink-0">
@@ -314,6 +736,7 @@ export default function Queue({ roomId }: QueueProps) {
                                     <img
                                         src={item.thumbnail}
                                         alt={item.title}
+                                        draggable={false}
                                         className="queue-thumbnail"
                                         onError={(e) => {
                                             (e.target as HTMLImageElement).src = getThumbnailUrl(item.videoId, 'default');
@@ -329,9 +752,114 @@ export default function Queue({ roomId }: QueueProps) {
                                 {/* Info */}
                                 <div className="flex-1 min-w-0">
                                     <p className="text-sm font-medium truncate">{item.title}</p>
-                                    <p className="text-xs text-gray-500">Toegevoegd door {item.addedBy}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {item.autoAdded ? (
+                                            <span className="text-indigo-300" title="Automatisch toegevoegd door de radio">
+                                                Radio · automatisch toegevoegd
+                                            </span>
+                                        ) : (
+                                            <>Toegevoegd door {item.addedBy}</>
+                                        )}
+                                        {rounds.has(item.id) && ` · ronde ${rounds.get(item.id)}`}
+                                    </p>
+                                    {isUpvoteOrder && voterNames && (
+                                        <p className="text-xs text-indigo-300 truncate">Stemmen: {voterNames}</p>
+                                    )}
+                                    {(item.startAt !== undefined || item.endAt !== undefined) && editingClipId !== item.id && (
+                                        <p className="text-xs text-indigo-300">
+                                            Fragment {formatDuration(item.startAt ?? 0)} – {item.endAt !== undefined ? formatDuration(item.endAt) : 'einde'}
+                                        </p>
+                                    )}
+                                    {editingClipId === item.id && (
+                                        <div className="flex items-center gap-1 mt-1">
+                                            <input
+                                                type="text"
+                                                value={clipStart}
+                                                onChange={(e) => setClipStart(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleSaveClip(item.id)}
+                                                placeholder="Begin"
+                                                aria-label="Begin"
+                                                className="glass-input w-16 px-2 py-0.5 text-xs"
+                                            />
+                                            <span className="text-xs text-gray-500">–</span>
+                                            <input
+                                                type="text"
+                                                value={clipEnd}
+                                                onChange={(e) => setClipEnd(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleSaveClip(item.id)}
+                                                placeholder="Einde"
+                                                aria-label="Einde"
+                                                className="glass-input w-16 px-2 py-0.5 text-xs"
+                                            />
+                                            <button
+                                                onClick={() => handleSaveClip(item.id)}
+                                                className="px-1 text-xs text-indigo-300 hover:text-indigo-200"
+                                            >
+                                                Opslaan
+                                            </button>
+                                            <button
+                                                onClick={() => setEditingClipId(null)}
+                                                className="px-1 text-xs text-gray-400 hover:text-gray-300"
+                                            >
+                                                Annuleren
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
 
+                                {/* Clip Button */}
+                                {editingClipId !== item.id && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            startEditingClip(item);
+                                        }}
+                                        title="Fragment instellen"
+                                        aria-label="Fragment instellen"
+                                        className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                        </svg>
+                                    </button>
+                                )}
+
+                                {/* Upvote Button */}
+                                {isUpvoteOrder && index > state.currentVideoIndex && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            upvoteInQueue(item.id, !hasUpvoted);
+                                        }}
+                                        title={hasUpvoted ? 'Stem intrekken' : 'Stem omhoog'}
+                                        aria-label={hasUpvoted ? 'Stem intrekken' : 'Stem omhoog'}
+                                        aria-pressed={hasUpvoted}
+                                        className={`flex-shrink-0 flex flex-col items-center px-2 py-1 rounded-lg hover:bg-white/10 transition-colors ${hasUpvoted ? 'text-indigo-400' : 'text-gray-400'}`}
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                                        </svg>
+                                        <span className="text-xs">{voters.length}</span>
+                                    </button>
+                                )}
+
+                                {/* Play Next Button */}
+                                {isManualOrder && !isActive && !isUpNext && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleMove(item.id, getUpNextIndex(index, state.currentVideoIndex));
+                                        }}
+                                        title="Speel hierna"
+                                        aria-label="Speel hierna"
+                                        className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 11l7-7 7 7M5 19l7-7 7 7" />
+                                        </svg>
+                                    </button>
+                                )}
+
                                 {/* Remove Button */}
                                 <button
                                     onClick={(e) => {
@@ -349,6 +877,153 @@ export default function Queue({ roomId }: QueueProps) {
                     })
                 )}
             </div>
+
+            {/* Previously Played */}
+            {state.history.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-white/10">
+                    <button
+                        onClick={() => setShowHistory(prev => !prev)}
+                        aria-expanded={showHistory}
+                        className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-200 transition-colors"
+                    >
+                        <span>Eerder afgespeeld ({state.history.length})</span>
+                        <svg
+                            className={`w-4 h-4 transition-transform ${showHistory ? 'rotate-180' : ''}`}
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                        >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+
+                    {showHistory && (
+                        <div className="mt-2 max-h-48 overflow-y-auto space-y-1">
+                            {[...state.history].reverse().map((entry) => (
+                                <div
+                                    key={`${entry.id}-${entry.playedAt}`}
+                                    className="flex items-center gap-2 p-1 rounded hover:bg-white/5 text-sm"
+                                >
+                                    <img
+                                        src={entry.thumbnail}
+                                        alt=""
+                                        className="w-12 h-7 rounded object-cover flex-shrink-0"
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="truncate">{entry.title}</p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {formatPlayedAt(entry.playedAt)} · toegevoegd door {entry.addedBy}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleRequeue(entry)}
+                                        title="Opnieuw toevoegen"
+                                        aria-label="Opnieuw toevoegen"
+                                        className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                        </svg>
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Saved Playlists */}
+            {(state.queue.length > 0 || state.playlists.length > 0) && (
+                <div className="mt-3 pt-3 border-t border-white/10">
+                    <button
+                        onClick={() => setShowPlaylists(prev => !prev)}
+                        aria-expanded={showPlaylists}
+                        className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-gray-200 transition-colors"
+                    >
+                        <span>Opgeslagen afspeellijsten ({state.playlists.length})</span>
+                        <svg
+                            className={`w-4 h-4 transition-transform ${showPlaylists ? 'rotate-180' : ''}`}
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                        >
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+
+                    {showPlaylists && (
+                        <div className="mt-2 space-y-2">
+                            <form onSubmit={handleSavePlaylist} className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={playlistName}
+                                    onChange={(e) => setPlaylistName(e.target.value)}
+                                    placeholder="Naam voor de huidige wachtrij"
+                                    maxLength={50}
+                                    className="glass-input flex-1 min-w-0 px-2 py-1 text-sm"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={!playlistName.trim() || state.queue.length === 0}
+                                    className="btn btn-primary px-3 py-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Opslaan
+                                </button>
+                            </form>
+
+                            <div className="max-h-48 overflow-y-auto space-y-1">
+                                {state.playlists.map((saved) => (
+                                    <div
+                                        key={saved.id}
+                                        className="flex items-center gap-2 p-1 rounded hover:bg-white/5 text-sm"
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <p className="truncate">{saved.name}</p>
+                                            <p className="text-xs text-gray-500 truncate">
+                                                {saved.items.length} video&apos;s · {formatPlayedAt(saved.savedAt)} · door {saved.savedBy}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => loadSavedPlaylist(saved.id, 'append')}
+                                            title="Toevoegen aan wachtrij"
+                                            aria-label="Toevoegen aan wachtrij"
+                                            className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                                        >
+                                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                            </svg>
+                                        </button>
+                                        {isHost && (
+                                            <>
+                                                <button
+                                                    onClick={() => handleReplaceQueue(saved.id, saved.name)}
+                                                    title="Wachtrij vervangen"
+                                                    aria-label="Wachtrij vervangen"
+                                                    className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-indigo-400 transition-colors"
+                                                >
+                                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                                    </svg>
+                                                </button>
+                                                <button
+                                                    onClick={() => deletePlaylist(saved.id)}
+                                                    title="Afspeellijst verwijderen"
+                                                    aria-label="Afspeellijst verwijderen"
+                                                    className="flex-shrink-0 p-2 rounded-lg hover:bg-white/10 text-gray-400 hover:text-red-400 transition-colors"
+                                                >
+                                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                                    </svg>
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { useRoom, SyncSettings, QueueSettings, PlaybackSettings } from '@/context/RoomContext';
+import { useSocket } from '@/hooks/useSocket';
+
+interface RoomSettingsProps {
+    roomId: string;
+    onClose: () => void;
+}
+
+export default function RoomSettings({ roomId, onClose }: RoomSettingsProps) {
+    const { state } = useRoom();
+    const { updateSettings } = useSocket(roomId);
+    const [sync, setSync] = useState<SyncSettings>(state.settings.sync);
+    const [queue, setQueue] = useState<QueueSettings>(state.settings.queue);
+    const [playback, setPlayback] = useState<PlaybackSettings>(state.settings.playback);
+
+    const handleSave = () => {
+        updateSettings({ sync, queue, playback });
+        onClose();
+    };
+
+    const updateSync = (key: keyof SyncSettings, value: string) => {
+        const parsed = parseFloat(value);
+        if (!Number.isNaN(parsed)) {
+            setSync(prev => ({ ...prev, [key]: parsed }));
+        }
+    };
+
+    // Queue policy limits; 0 is no limit
+    const updateQueueLimit = (key: 'maxPendingPerParticipant' | 'maxDurationMinutes' | 'duplicateWindowMinutes', value: string) => {
+        const parsed = parseInt(value, 10);
+        if (!Number.isNaN(parsed)) {
+            setQueue(prev => ({ ...prev, [key]: Math.max(0, parsed) }));
+        }
+    };
+
+    return (
+        <div className="absolute right-0 top-full mt-2 w-80 glass-card border border-white/10 p-4 z-50 animate-fade-in">
+            <h3 className="font-semibold text-sm mb-3">Room Settings</h3>
+
+            <div className="space-y-3">
+                <p className="text-xs font-medium text-gray-400 uppercase tracking-wide">Playback sync</p>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Drift tolerance (s)</span>
+                    <input
+                        type="number"
+                        min={0.05}
+                        max={1}
+                        step={0.05}
+                        value={sync.driftTolerance}
+                        onChange={(e) => updateSync('driftTolerance', e.target.value)}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Hard-seek threshold (s)</span>
+                    <input
+                        type="number"
+                        min={0.5}
+                        max={10}
+                        step={0.5}
+                        value={sync.seekThreshold}
+                        onChange={(e) => updateSync('seekThreshold', e.target.value)}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Max speed change (%)</span>
+                    <input
+                        type="number"
+                        min={5}
+                        max={25}
+                        step={5}
+                        value={Math.round(sync.maxRateAdjustment * 100)}
+                        onChange={(e) => updateSync('maxRateAdjustment', String(parseFloat(e.target.value) / 100))}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+
+                <p className="text-xs font-medium text-gray-400 uppercase tracking-wide pt-2">Queue</p>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Order</span>
+                    <select
+                        value={queue.order}
+                        onChange={(e) => setQueue(prev => ({ ...prev, order: e.target.value as QueueSettings['order'] }))}
+                        className="glass-input px-2 py-1 text-sm"
+                    >
+                        <option value="manual">As added</option>
+                        <option value="votes">By upvotes</option>
+                        <option value="round-robin">Taking turns</option>
+                    </select>
+                </label>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Waiting videos per person</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={queue.maxPendingPerParticipant}
+                        onChange={(e) => updateQueueLimit('maxPendingPerParticipant', e.target.value)}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">Max video length (min)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={1440}
+                        step={1}
+                        value={queue.maxDurationMinutes}
+                        onChange={(e) => updateQueueLimit('maxDurationMinutes', e.target.value)}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">No repeats within (min)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={10080}
+                        step={5}
+                        value={queue.duplicateWindowMinutes}
+                        onChange={(e) => updateQueueLimit('duplicateWindowMinutes', e.target.value)}
+                        className="glass-input w-20 px-2 py-1 text-sm"
+                    />
+                </label>
+                <p className="text-xs text-gray-500">0 turns a limit off.</p>
+
+                <p className="text-xs font-medium text-gray-400 uppercase tracking-wide pt-2">Playback</p>
+
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-300">When a video ends</span>
+                    <select
+                        value={playback.mode}
+                        onChange={(e) => setPlayback({ mode: e.target.value as PlaybackSettings['mode'] })}
+                        className="glass-input px-2 py-1 text-sm"
+                    >
+                        <option value="manual">Wait for votes</option>
+                        <option value="auto-advance">Play the next video</option>
+                        <option value="repeat-one">Repeat it</option>
+                        <option value="repeat-queue">Repeat the queue</option>
+                        <option value="shuffle">Play a random video</option>
+                        <option value="radio">Radio: keep playing related videos</option>
+                    </select>
+                </label>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                <button onClick={onClose} className="btn btn-secondary flex-1 text-sm py-2">
+                    Cancel
+                </button>
+                <button onClick={handleSave} className="btn btn-primary flex-1 text-sm py-2">
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -15,7 +15,7 @@ interface LocalStream {
 
 export default function VideoChat({ roomId }: VideoChatProps) {
     const { state } = useRoom();
-    const { updateParticipant } = useSocket(roomId);
+    const { updateParticipant, transferHost, kickParticipant, banParticipant } = useSocket(roomId);
     const [localStream, setLocalStream] = useState<LocalStream>({ video: null, audio: null });
     const [isMuted, setIsMuted] = useState(false);
     const [isCameraOff, setIsCameraOff] = useState(false);
@@ -91,6 +91,13 @@ export default function VideoChat({ roomId }: VideoChatProps) {
     const remoteParticipants = state.participants.filter(
         p => p.id !== state.localParticipant?.id
     );
+    const isLocalHost = state.localParticipant?.isHost ?? false;
+
+    const handleBan = (participantId: string, name: string) => {
+        if (window.confirm(`Ban ${name} from this room? They won't be able to rejoin.`)) {
+            banParticipant(participantId);
+        }
+    };
 
     return (
         <div className="flex flex-col h-full">
@@ -137,6 +144,7 @@ export default function VideoChat({ roomId }: VideoChatProps) {
 
                     {/* Name Tag */}
                     <div className="participant-name">
+                        {isLocalHost && <span className="mr-1" title="Host">👑</span>}
                         {state.localParticipant?.name || 'You'} (You)
                         {isMuted && (
                             <svg className="w-3 h-3 ml-1 inline text-red-400" fill="currentColor" viewBox="0 0 24 24">
@@ -156,8 +164,36 @@ export default function VideoChat({ roomId }: VideoChatProps) {
                             </div>
                         </div>
 
+                        {/* Host Controls */}
+                        {isLocalHost && (
+                            <div className="absolute top-2 right-2 flex gap-1 z-10">
+                                <button
+                                    onClick={() => transferHost(participant.id)}
+                                    className="px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-xs text-gray-200 transition-colors"
+                                    title="Make host"
+                                >
+                                    👑
+                                </button>
+                                <button
+                                    onClick={() => kickParticipant(participant.id)}
+                                    className="px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-xs text-gray-200 hover:text-yellow-400 transition-colors"
+                                    title="Kick"
+                                >
+                                    Kick
+                                </button>
+                                <button
+                                    onClick={() => handleBan(participant.id, participant.name)}
+                                    className="px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-xs text-gray-200 hover:text-red-400 transition-colors"
+                                    title="Ban"
+                                >
+                                    Ban
+                                </button>
+                            </div>
+                        )}
+
                         {/* Name Tag */}
                         <div className="participant-name">
+                            {participant.isHost && <span className="mr-1" title="Host">👑</span>}
                             {participant.name}
                             {participant.isMuted && (
                                 <svg className="w-3 h-3 ml-1 inline text-red-400" fill="currentColor" viewBox="0 0 24 24">
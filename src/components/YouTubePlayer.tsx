@@ -2,13 +2,16 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRoom } from '@/context/RoomContext';
-import { useSocket } from '@/hooks/useSocket';
+import type { PlaybackMode } from '@/shared/protocol';
+import { getNextIndex } from '@/shared/queue';
+import { useSocket, getServerTime } from '@/hooks/useSocket';
 import {
     YT_PLAYER_STATE,
     YT_ERROR_CODES,
     getYouTubeErrorMessage,
     formatDuration
 } from '@/utils/youtube';
+import { getDriftCorrection } from '@/utils/driftController';
 
 // YouTube IFrame API types
 declare global {
@@ -39,7 +42,9 @@ interface YTPlayer {
     getCurrentTime: () => number;
     getDuration: () => number;
     getPlayerState: () => number;
-    loadVideoById: (videoId: string) => void;
+    getPlaybackRate: () => number;
+    setPlaybackRate: (suggestedRate: number) => void;
+    loadVideoById: (options: { videoId: string; startSeconds?: number; endSeconds?: number }) => void;
     destroy: () => void;
 }
 
@@ -47,9 +52,31 @@ interface YouTubePlayerProps {
     roomId: string;
 }
 
+// Last authoritative playback position received from the server
+interface SyncTarget {
+    playerState: 'playing' | 'paused';
+    videoTime: number;
+    serverTime: number;
+}
+
+// Shown in the overlay so everyone knows what happens when the video ends
+const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+    'manual': 'Vote to skip',
+    'auto-advance': 'Auto-advance',
+    'repeat-one': 'Repeat one',
+    'repeat-queue': 'Repeat queue',
+    'shuffle': 'Shuffle',
+    'radio': 'Radio',
+};
+
+function getTargetTime(target: SyncTarget): number {
+    if (target.playerState !== 'playing') return target.videoTime;
+    return target.videoTime + (getServerTime() - target.serverTime) / 1000;
+}
+
 export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
     const { state, dispatch, currentVideo, nextVideo } = useRoom();
-    const { sendPlayerAction, onPlayerSync, voteNext } = useSocket(roomId);
+    const { sendPlayerAction, reportEnded, onPlayerSync, onPlayerHeartbeat, voteNext } = useSocket(roomId);
     const playerRef = useRef<YTPlayer | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const [isReady, setIsReady] = useState(false);
@@ -57,6 +84,13 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
     const [duration, setDuration] = useState(0);
     const [currentTime, setCurrentTime] = useState(0);
     const isLocalActionRef = useRef(false);
+    const syncTargetRef = useRef<SyncTarget | null>(null);
+    // Where the current video stops when only a clip of it is queued
+    const clipEnd = currentVideo?.endAt;
+    // The player's event handlers are bound once, so they read the index from here
+    const videoIndexRef = useRef(state.currentVideoIndex);
+    const playbackMode = state.settings.playback.mode;
+    const canSkip = getNextIndex(state.queue.length, state.currentVideoIndex, playbackMode) !== null;
 
     // Calculate if local user has voted
     const hasVoted = state.localParticipant ? state.votes.includes(state.localParticipant.id) : false;
@@ -105,6 +139,8 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
                 playsinline: 1,
                 enablejsapi: 1,
                 origin: typeof window !== 'undefined' ? window.location.origin : '',
+                ...(currentVideo?.startAt !== undefined ? { start: Math.floor(currentVideo.startAt) } : {}),
+                ...(currentVideo?.endAt !== undefined ? { end: Math.ceil(currentVideo.endAt) } : {}),
             },
             events: {
                 onReady: handleReady,
@@ -112,7 +148,7 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
                 onError: handleError,
             },
         });
-    }, [currentVideo?.videoId]);
+    }, [currentVideo?.videoId, currentVideo?.startAt, currentVideo?.endAt]);
 
     // Handle player ready
     const handleReady = useCallback((event: { target: YTPlayer }) => {
@@ -130,9 +166,10 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
             setDuration(player.getDuration());
         }
 
-        // Handle video ended - REMOVED auto-advance
+        // Video ended: the server decides what plays next, so every client moves on together
         if (playerState === YT_PLAYER_STATE.ENDED) {
             dispatch({ type: 'SET_PLAYER_STATE', payload: 'ended' });
+            reportEnded(videoIndexRef.current, player.getCurrentTime());
             return;
         }
 
@@ -154,7 +191,7 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
         } else if (playerState === YT_PLAYER_STATE.BUFFERING) {
             dispatch({ type: 'SET_PLAYER_STATE', payload: 'buffering' });
         }
-    }, [dispatch, sendPlayerAction]); // Removed nextVideo from dependencies
+    }, [dispatch, sendPlayerAction, reportEnded]); // Removed nextVideo from dependencies
 
     // Handle player errors
     const handleError = useCallback((event: { data: number }) => {
@@ -175,14 +212,22 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
         }
     }, [nextVideo, currentVideo?.videoId]);
 
+    useEffect(() => {
+        videoIndexRef.current = state.currentVideoIndex;
+    }, [state.currentVideoIndex]);
+
     // Load new video when currentVideo changes
     useEffect(() => {
         if (playerRef.current && currentVideo?.videoId && isReady) {
             console.log('Loading video:', currentVideo.videoId);
-            playerRef.current.loadVideoById(currentVideo.videoId);
+            playerRef.current.loadVideoById({
+                videoId: currentVideo.videoId,
+                startSeconds: currentVideo.startAt,
+                endSeconds: currentVideo.endAt,
+            });
             setError(null);
         }
-    }, [currentVideo?.videoId, isReady]);
+    }, [currentVideo?.videoId, currentVideo?.startAt, currentVideo?.endAt, isReady]);
 
     // Subscribe to player sync events from other participants
     useEffect(() => {
@@ -190,13 +235,18 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
             const player = playerRef.current;
             if (!player || !isReady) return;
 
-            // Calculate latency compensation
-            const latency = (Date.now() - data.serverTime) / 1000;
-            const targetTime = data.videoTime + latency;
-
-            // Only seek if difference is significant (> 1 second)
-            const currentPlayerTime = player.getCurrentTime();
-            if (data.action === 'seek' || Math.abs(currentPlayerTime - targetTime) > 1) {
+            const previousState = syncTargetRef.current?.playerState ?? 'paused';
+            const target: SyncTarget = {
+                playerState: data.action === 'seek' ? previousState : data.action === 'play' ? 'playing' : 'paused',
+                videoTime: data.videoTime,
+                serverTime: data.serverTime,
+            };
+            syncTargetRef.current = target;
+
+            // Explicit seeks jump right away; smaller drift is left to the drift controller
+            const targetTime = getTargetTime(target);
+            const drift = Math.abs(player.getCurrentTime() - targetTime);
+            if (data.action === 'seek' || drift > state.settings.sync.seekThreshold) {
                 player.seekTo(targetTime, true);
             }
 
@@ -211,7 +261,74 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
         });
 
         return unsubscribe;
-    }, [onPlayerSync, isReady, dispatch]);
+    }, [onPlayerSync, isReady, state.settings.sync.seekThreshold, dispatch]);
+
+    // Resync to the server's playback clock (late joiners, drifting clients)
+    useEffect(() => {
+        const unsubscribe = onPlayerHeartbeat((data) => {
+            const player = playerRef.current;
+            if (!player || !isReady) return;
+
+            if (data.currentVideoIndex !== state.currentVideoIndex) {
+                dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: data.currentVideoIndex });
+                return;
+            }
+
+            syncTargetRef.current = {
+                playerState: data.playerState,
+                videoTime: data.videoTime,
+                serverTime: data.serverTime,
+            };
+
+            const playerState = player.getPlayerState();
+            if (playerState === YT_PLAYER_STATE.ENDED) return;
+            // The clip is over; don't start it again
+            if (clipEnd !== undefined && data.videoTime >= clipEnd) return;
+
+            const isPlaying = playerState === YT_PLAYER_STATE.PLAYING || playerState === YT_PLAYER_STATE.BUFFERING;
+            if (data.playerState === 'playing' && !isPlaying) {
+                player.playVideo();
+                dispatch({ type: 'SET_PLAYER_STATE', payload: 'playing' });
+            } else if (data.playerState === 'paused' && isPlaying) {
+                player.pauseVideo();
+                dispatch({ type: 'SET_PLAYER_STATE', payload: 'paused' });
+            }
+        });
+
+        return unsubscribe;
+    }, [onPlayerHeartbeat, isReady, state.currentVideoIndex, clipEnd, dispatch]);
+
+    // Drift controller: nudge the playback rate towards the server position
+    // and only hard-seek when the player is too far off
+    useEffect(() => {
+        if (!isReady) return;
+
+        const interval = setInterval(() => {
+            const player = playerRef.current;
+            const target = syncTargetRef.current;
+            if (!player || !target) return;
+
+            const playerState = player.getPlayerState();
+            if (playerState !== YT_PLAYER_STATE.PLAYING) {
+                // A paused player can simply be moved; nobody hears the jump
+                if (target.playerState === 'paused' && playerState === YT_PLAYER_STATE.PAUSED &&
+                    Math.abs(player.getCurrentTime() - target.videoTime) > state.settings.sync.driftTolerance) {
+                    player.seekTo(target.videoTime, true);
+                }
+                return;
+            }
+
+            const correction = getDriftCorrection(player.getCurrentTime(), getTargetTime(target), state.settings.sync);
+            if (correction.type === 'seek') {
+                player.seekTo(correction.time, true);
+                player.setPlaybackRate(1);
+            } else if (player.getPlaybackRate() !== correction.rate) {
+                player.setPlaybackRate(correction.rate);
+            }
+        }, 500);
+
+        return () => clearInterval(interval);
+    }, [isReady, state.settings.sync]);
 
     // Update current time periodically
     useEffect(() => {
@@ -222,11 +339,19 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
                 const time = playerRef.current.getCurrentTime();
                 setCurrentTime(time);
                 dispatch({ type: 'SET_CURRENT_TIME', payload: time });
+
+                // Reaching the end of a clip counts as the video ending
+                if (clipEnd !== undefined && time >= clipEnd &&
+                    playerRef.current.getPlayerState() === YT_PLAYER_STATE.PLAYING) {
+                    playerRef.current.pauseVideo();
+                    dispatch({ type: 'SET_PLAYER_STATE', payload: 'ended' });
+                    reportEnded(videoIndexRef.current, time);
+                }
             }
         }, 500);
 
         return () => clearInterval(interval);
-    }, [isReady, dispatch]);
+    }, [isReady, clipEnd, dispatch, reportEnded]);
 
     return (
         <div className="flex flex-col gap-4 h-full">
@@ -271,8 +396,13 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
                         <div className="text-white/80 font-medium truncate max-w-[70%]">
                             {currentVideo?.title}
                         </div>
-                        <div className="text-white/60 font-mono">
-                            {formatDuration(currentTime)} / {formatDuration(duration)}
+                        <div className="flex items-center gap-3">
+                            <span className="text-xs text-white/70 bg-white/10 px-2 py-0.5 rounded-full" title="Playback mode">
+                                {PLAYBACK_MODE_LABELS[playbackMode]}
+                            </span>
+                            <span className="text-white/60 font-mono">
+                                {formatDuration(currentTime)} / {formatDuration(duration)}
+                            </span>
                         </div>
                     </div>
 
@@ -288,7 +418,7 @@ export default function YouTubePlayer({ roomId }: YouTubePlayerProps) {
 
                     {/* Voting Section */}
                     <div className="flex items-center gap-4">
-                        {state.currentVideoIndex < state.queue.length - 1 ? (
+                        {canSkip ? (
                             <button
                                 onClick={() => {
                                     if (!hasVoted) voteNext();
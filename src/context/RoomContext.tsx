@@ -1,33 +1,15 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
+import { DEFAULT_ROOM_SETTINGS } from '@/shared/protocol';
+import type { Participant, QueueItem, QueueUpvotes, PlayedItem, SavedPlaylist, ChatMessage, RoomSettings, JoinError, SocketError } from '@/shared/protocol';
+import { moveQueueItem } from '@/shared/queue';
 
-// Types
-export interface Participant {
-  id: string;
-  name: string;
-  isHost: boolean;
-  isMuted: boolean;
-  isCameraOff: boolean;
-}
-
-export interface QueueItem {
-  id: string;
-  videoId: string;
-  title: string;
-  thumbnail: string;
-  addedBy: string;
-  duration?: string;
-}
+// Types (the ones shared with the server live in shared/protocol.ts)
+export type { Participant, QueueItem, QueueUpvotes, PlayedItem, SavedPlaylist, ChatMessage, SyncSettings, QueueSettings, PlaybackSettings, RoomSettings, JoinError, SocketError } from '@/shared/protocol';
 
-export interface ChatMessage {
-  id: string;
-  senderId: string;
-  senderName: string;
-  content: string;
-  timestamp: number;
-  isSystem?: boolean;
-}
+// New rooms start with these until the server sends the room's settings
+export { DEFAULT_ROOM_SETTINGS };
 
 export interface RoomState {
   roomId: string | null;
@@ -35,18 +17,28 @@ export interface RoomState {
   queue: QueueItem[];
   messages: ChatMessage[];
   votes: string[]; // List of participant IDs who voted next
+  upvotes: QueueUpvotes; // Who upvoted which upcoming video
+  history: PlayedItem[]; // Videos the room played, oldest first
+  playlists: SavedPlaylist[]; // Queues saved in this room
   currentVideoIndex: number;
   playerState: 'unstarted' | 'playing' | 'paused' | 'buffering' | 'ended';
   currentTime: number;
+  settings: RoomSettings;
+  isLocked: boolean; // Password-protected or invite-only
+  importLimit: number; // Most videos one import may add, as the server allows
   isConnected: boolean;
   localParticipant: Participant | null;
+  joinError: JoinError | null; // Why the server refused or ended our participation
+  socketError: SocketError | null; // Last event the server refused
 }
 
 // Actions
 type RoomAction =
   | { type: 'SET_ROOM_ID'; payload: string }
   | { type: 'SET_CONNECTED'; payload: boolean }
-  | { type: 'SET_LOCAL_PARTICIPANT'; payload: Participant }
+  | { type: 'SET_LOCAL_PARTICIPANT'; payload: Participant | null }
+  | { type: 'SET_JOIN_ERROR'; payload: JoinError | null }
+  | { type: 'SET_SOCKET_ERROR'; payload: SocketError | null }
   | { type: 'SET_PARTICIPANTS'; payload: Participant[] }
   | { type: 'ADD_PARTICIPANT'; payload: Participant }
   | { type: 'REMOVE_PARTICIPANT'; payload: string }
@@ -54,12 +46,18 @@ type RoomAction =
   | { type: 'SET_QUEUE'; payload: QueueItem[] }
   | { type: 'ADD_TO_QUEUE'; payload: QueueItem }
   | { type: 'REMOVE_FROM_QUEUE'; payload: string }
+  | { type: 'MOVE_QUEUE_ITEM'; payload: { itemId: string; toIndex: number } }
   | { type: 'ADD_MESSAGE'; payload: ChatMessage }
   | { type: 'SET_MESSAGES'; payload: ChatMessage[] }
   | { type: 'SET_VOTES'; payload: string[] }
+  | { type: 'SET_UPVOTES'; payload: QueueUpvotes }
+  | { type: 'SET_HISTORY'; payload: PlayedItem[] }
+  | { type: 'ADD_TO_HISTORY'; payload: PlayedItem }
+  | { type: 'SET_PLAYLISTS'; payload: SavedPlaylist[] }
   | { type: 'SET_CURRENT_VIDEO_INDEX'; payload: number }
   | { type: 'SET_PLAYER_STATE'; payload: RoomState['playerState'] }
   | { type: 'SET_CURRENT_TIME'; payload: number }
+  | { type: 'SET_SETTINGS'; payload: RoomSettings }
   | { type: 'SYNC_STATE'; payload: Partial<RoomState> };
 
 // Initial state
@@ -69,11 +67,19 @@ const initialState: RoomState = {
   queue: [],
   messages: [],
   votes: [],
+  upvotes: {},
+  history: [],
+  playlists: [],
   currentVideoIndex: 0,
   playerState: 'unstarted',
   currentTime: 0,
+  settings: DEFAULT_ROOM_SETTINGS,
+  isLocked: false,
+  importLimit: 50,
   isConnected: false,
   localParticipant: null,
+  joinError: null,
+  socketError: null,
 };
 
 // Reducer
@@ -88,6 +94,12 @@ function roomReducer(state: RoomState, action: RoomAction): RoomState {
     case 'SET_LOCAL_PARTICIPANT':
       return { ...state, localParticipant: action.payload };
 
+    case 'SET_JOIN_ERROR':
+      return { ...state, joinError: action.payload };
+
+    case 'SET_SOCKET_ERROR':
+      return { ...state, socketError: action.payload };
+
     case 'SET_PARTICIPANTS':
       return { ...state, participants: action.payload };
 
@@ -109,6 +121,9 @@ function roomReducer(state: RoomState, action: RoomAction): RoomState {
         participants: state.participants.map(p =>
           p.id === action.payload.id ? { ...p, ...action.payload.updates } : p
         ),
+        localParticipant: state.localParticipant?.id === action.payload.id
+          ? { ...state.localParticipant, ...action.payload.updates }
+          : state.localParticipant,
       };
 
     case 'SET_QUEUE':
@@ -123,6 +138,11 @@ function roomReducer(state: RoomState, action: RoomAction): RoomState {
         queue: state.queue.filter(item => item.id !== action.payload),
       };
 
+    case 'MOVE_QUEUE_ITEM': {
+      const moved = moveQueueItem(state.queue, state.currentVideoIndex, action.payload.itemId, action.payload.toIndex);
+      return moved ? { ...state, ...moved } : state;
+    }
+
     case 'ADD_MESSAGE':
       return { ...state, messages: [...state.messages, action.payload] };
 
@@ -132,6 +152,18 @@ function roomReducer(state: RoomState, action: RoomAction): RoomState {
     case 'SET_VOTES':
       return { ...state, votes: action.payload };
 
+    case 'SET_UPVOTES':
+      return { ...state, upvotes: action.payload };
+
+    case 'SET_HISTORY':
+      return { ...state, history: action.payload };
+
+    case 'ADD_TO_HISTORY':
+      return { ...state, history: [...state.history, action.payload] };
+
+    case 'SET_PLAYLISTS':
+      return { ...state, playlists: action.payload };
+
     case 'SET_CURRENT_VIDEO_INDEX':
       return { ...state, currentVideoIndex: action.payload };
 
@@ -141,6 +173,9 @@ function roomReducer(state: RoomState, action: RoomAction): RoomState {
     case 'SET_CURRENT_TIME':
       return { ...state, currentTime: action.payload };
 
+    case 'SET_SETTINGS':
+      return { ...state, settings: action.payload };
+
     case 'SYNC_STATE':
       return { ...state, ...action.payload };
 
@@ -2,38 +2,107 @@
 
 import { useEffect, useRef, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { useRoom, Participant, QueueItem, ChatMessage } from '@/context/RoomContext';
-
-// Server events that clients receive
-interface ServerToClientEvents {
-    'room:joined': (data: { participants: Participant[]; queue: QueueItem[]; messages: ChatMessage[]; votes: string[]; currentVideoIndex: number; playerState: string; currentTime: number }) => void;
-    'room:participant-joined': (participant: Participant) => void;
-    'room:participant-left': (participantId: string) => void;
-    'room:participant-updated': (data: { id: string; updates: Partial<Participant> }) => void;
-    'player:sync': (data: { action: 'play' | 'pause' | 'seek'; videoTime: number; serverTime: number; initiator: string }) => void;
-    'queue:updated': (queue: QueueItem[]) => void;
-    'queue:video-changed': (index: number) => void;
-    'chat:message': (message: ChatMessage) => void;
-    'room:votes-updated': (votes: string[]) => void;
-    'error': (message: string) => void;
+import { useRoom } from '@/context/RoomContext';
+import type {
+    ClientToServerEvents,
+    JoinCredentials,
+    NewQueueItem,
+    ParticipantProfile,
+    PlayerAction,
+    PlayerHeartbeat,
+    PlayerSync,
+    PlaylistLoadMode,
+    RoomInvite,
+    RoomSettings,
+    ServerToClientEvents,
+} from '@/shared/protocol';
+import { ClockSample, computeClockSample, estimateClock } from '@/utils/clockSync';
+import { loadSession, saveSession, clearSession, getClientId } from '@/utils/session';
+
+type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+let socket: TypedSocket | null = null;
+
+// The room this client has joined, re-joined with its resume token whenever
+// the socket reconnects
+interface ActiveJoin {
+    roomId: string;
+    participant: ParticipantProfile;
+    credentials: JoinCredentials;
 }
 
-// Client events that server receives
-interface ClientToServerEvents {
-    'room:join': (data: { roomId: string; participant: Participant }) => void;
-    'room:leave': (roomId: string) => void;
-    'participant:update': (data: { roomId: string; updates: Partial<Participant> }) => void;
-    'player:action': (data: { roomId: string; action: 'play' | 'pause' | 'seek'; videoTime: number }) => void;
-    'queue:add': (data: { roomId: string; item: QueueItem }) => void;
-    'queue:remove': (data: { roomId: string; itemId: string }) => void;
-    'queue:change-video': (data: { roomId: string; index: number }) => void;
-    'chat:send': (data: { roomId: string; message: ChatMessage }) => void;
-    'vote:next': (data: { roomId: string; participantId: string }) => void;
+let activeJoin: ActiveJoin | null = null;
+
+function emitJoin(target: TypedSocket, join: ActiveJoin) {
+    const resumeToken = loadSession(join.roomId)?.resumeToken;
+    target.emit('room:join', {
+        roomId: join.roomId,
+        participant: join.participant,
+        ...join.credentials,
+        resumeToken,
+        clientId: getClientId(),
+    });
 }
 
-type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+// Forget the current room after the server refused or ended our participation
+function endJoin() {
+    if (activeJoin) {
+        clearSession(activeJoin.roomId);
+        activeJoin = null;
+    }
+}
 
-let socket: TypedSocket | null = null;
+// Clock sync: a burst of pings on connect, then a single ping every interval.
+// Only the most recent samples are kept so the estimate follows clock changes.
+const CLOCK_SYNC_BURST = 5;
+const CLOCK_SYNC_INTERVAL = 30000;
+const CLOCK_MAX_SAMPLES = 10;
+
+let clockSamples: ClockSample[] = [];
+let clockEstimate: ClockSample = { offset: 0, rtt: 0 };
+let clockSyncTimer: ReturnType<typeof setInterval> | null = null;
+
+function pingServerClock(target: TypedSocket): Promise<void> {
+    return new Promise((resolve) => {
+        target.timeout(5000).emit('time:ping', Date.now(), (err, pong) => {
+            if (!err) {
+                clockSamples = [...clockSamples, computeClockSample(pong, Date.now())].slice(-CLOCK_MAX_SAMPLES);
+                clockEstimate = estimateClock(clockSamples) ?? clockEstimate;
+            }
+            resolve();
+        });
+    });
+}
+
+async function startClockSync(target: TypedSocket) {
+    stopClockSync();
+    clockSamples = [];
+    for (let i = 0; i < CLOCK_SYNC_BURST; i++) {
+        await pingServerClock(target);
+    }
+    clockSyncTimer = setInterval(() => pingServerClock(target), CLOCK_SYNC_INTERVAL);
+}
+
+function stopClockSync() {
+    if (clockSyncTimer) {
+        clearInterval(clockSyncTimer);
+        clockSyncTimer = null;
+    }
+}
+
+/**
+ * Current time on the server's clock, corrected for this client's clock skew
+ */
+export function getServerTime(): number {
+    return Date.now() + clockEstimate.offset;
+}
+
+/**
+ * Latest clock offset and round-trip time estimate, in ms
+ */
+export function getClockEstimate(): ClockSample {
+    return clockEstimate;
+}
 
 export function useSocket(roomId: string | null) {
     const { state, dispatch } = useRoom();
@@ -45,6 +114,14 @@ export function useSocket(roomId: string | null) {
         if (!roomId || isInitializedRef.current) return;
 
         const initSocket = async () => {
+            // Share one connection between all components, otherwise only the
+            // socket that sent room:join would receive room broadcasts
+            if (socket) {
+                socketRef.current = socket;
+                isInitializedRef.current = true;
+                return;
+            }
+
             // Connect to socket server
             const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || '';
             socket = io(socketUrl, {
@@ -56,21 +133,66 @@ export function useSocket(roomId: string | null) {
             socket.on('connect', () => {
                 console.log('Socket connected:', socket?.id);
                 dispatch({ type: 'SET_CONNECTED', payload: true });
+                if (socket) {
+                    startClockSync(socket);
+                    if (activeJoin) emitJoin(socket, activeJoin);
+                }
             });
 
             socket.on('disconnect', () => {
                 console.log('Socket disconnected');
+                stopClockSync();
                 dispatch({ type: 'SET_CONNECTED', payload: false });
             });
 
             // Room events
             socket.on('room:joined', (data) => {
+                if (activeJoin) {
+                    saveSession(activeJoin.roomId, { name: data.self.name, resumeToken: data.resumeToken });
+                }
+                dispatch({ type: 'SET_LOCAL_PARTICIPANT', payload: data.self });
                 dispatch({ type: 'SET_PARTICIPANTS', payload: data.participants });
                 dispatch({ type: 'SET_QUEUE', payload: data.queue });
                 dispatch({ type: 'SET_MESSAGES', payload: data.messages || [] });
                 dispatch({ type: 'SET_VOTES', payload: data.votes || [] });
+                dispatch({ type: 'SET_UPVOTES', payload: data.upvotes || {} });
+                dispatch({ type: 'SET_HISTORY', payload: data.history || [] });
+                dispatch({ type: 'SET_PLAYLISTS', payload: data.playlists || [] });
                 dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: data.currentVideoIndex });
+                dispatch({ type: 'SET_PLAYER_STATE', payload: data.playerState });
                 dispatch({ type: 'SET_CURRENT_TIME', payload: data.currentTime });
+                if (data.settings) {
+                    dispatch({ type: 'SET_SETTINGS', payload: data.settings });
+                }
+                dispatch({ type: 'SYNC_STATE', payload: { isLocked: data.isLocked, importLimit: data.importLimit } });
+            });
+
+            socket.on('room:join-rejected', (data) => {
+                endJoin();
+                dispatch({ type: 'SET_JOIN_ERROR', payload: data });
+            });
+
+            socket.on('room:kicked', (data) => {
+                endJoin();
+                dispatch({ type: 'SET_LOCAL_PARTICIPANT', payload: null });
+                dispatch({
+                    type: 'SET_JOIN_ERROR',
+                    payload: {
+                        reason: data.reason,
+                        message: data.reason === 'banned'
+                            ? 'You have been banned from this room.'
+                            : 'The host removed you from the room.',
+                    },
+                });
+            });
+
+            socket.on('room:expired', () => {
+                endJoin();
+                dispatch({ type: 'SET_LOCAL_PARTICIPANT', payload: null });
+                dispatch({
+                    type: 'SET_JOIN_ERROR',
+                    payload: { reason: 'expired', message: 'This room has expired. Create a new room to keep watching.' },
+                });
             });
 
             socket.on('room:participant-joined', (participant) => {
@@ -90,10 +212,19 @@ export function useSocket(roomId: string | null) {
                 dispatch({ type: 'SET_QUEUE', payload: queue });
             });
 
+            socket.on('queue:reordered', ({ queue, currentVideoIndex }) => {
+                dispatch({ type: 'SET_QUEUE', payload: queue });
+                dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: currentVideoIndex });
+            });
+
             socket.on('queue:video-changed', (index) => {
                 dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: index });
             });
 
+            socket.on('queue:upvotes-updated', (upvotes) => {
+                dispatch({ type: 'SET_UPVOTES', payload: upvotes });
+            });
+
             // Chat events
             socket.on('chat:message', (message) => {
                 dispatch({ type: 'ADD_MESSAGE', payload: message });
@@ -104,8 +235,37 @@ export function useSocket(roomId: string | null) {
                 dispatch({ type: 'SET_VOTES', payload: votes });
             });
 
-            socket.on('error', (message) => {
-                console.error('Socket error:', message);
+            // Watch history events
+            socket.on('room:history-added', (entry) => {
+                dispatch({ type: 'ADD_TO_HISTORY', payload: entry });
+            });
+
+            // Saved playlist events
+            socket.on('room:playlists-updated', (playlists) => {
+                dispatch({ type: 'SET_PLAYLISTS', payload: playlists });
+            });
+
+            // Settings events
+            socket.on('room:settings-updated', (settings) => {
+                dispatch({ type: 'SET_SETTINGS', payload: settings });
+            });
+
+            // The host put the room back to an earlier point; player:sync
+            // follows with the position to seek to
+            socket.on('room:restored', (data) => {
+                dispatch({ type: 'SET_QUEUE', payload: data.queue });
+                dispatch({ type: 'SET_MESSAGES', payload: data.messages });
+                dispatch({ type: 'SET_VOTES', payload: data.votes });
+                dispatch({ type: 'SET_UPVOTES', payload: data.upvotes });
+                dispatch({ type: 'SET_CURRENT_VIDEO_INDEX', payload: data.currentVideoIndex });
+                dispatch({ type: 'SET_PLAYER_STATE', payload: data.playerState });
+                dispatch({ type: 'SET_CURRENT_TIME', payload: data.currentTime });
+            });
+
+            // Refused events, shown to the user by the room page
+            socket.on('error', (error) => {
+                console.error('Socket error:', error);
+                dispatch({ type: 'SET_SOCKET_ERROR', payload: error });
             });
 
             isInitializedRef.current = true;
@@ -122,69 +282,162 @@ export function useSocket(roomId: string | null) {
     }, [roomId, dispatch]);
 
     // Join room
-    const joinRoom = useCallback((participant: Participant) => {
+    const joinRoom = useCallback((participant: ParticipantProfile, credentials: JoinCredentials = {}) => {
         if (socketRef.current && roomId) {
-            socketRef.current.emit('room:join', { roomId, participant });
-            dispatch({ type: 'SET_LOCAL_PARTICIPANT', payload: participant });
+            activeJoin = { roomId, participant, credentials };
+            dispatch({ type: 'SET_JOIN_ERROR', payload: null });
+            // Before the socket connects, the connect handler sends the join
+            if (socketRef.current.connected) {
+                emitJoin(socketRef.current, activeJoin);
+            }
         }
     }, [roomId, dispatch]);
 
     // Leave room
     const leaveRoom = useCallback(() => {
         if (socketRef.current && roomId) {
-            socketRef.current.emit('room:leave', roomId);
+            socketRef.current.emit('room:leave', { roomId });
+            endJoin();
+        }
+    }, [roomId]);
+
+    // Host controls
+    const transferHost = useCallback((participantId: string) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('room:transfer-host', { roomId, participantId });
+        }
+    }, [roomId]);
+
+    const createInvite = useCallback((): Promise<RoomInvite | null> => {
+        return new Promise((resolve) => {
+            if (!socketRef.current || !roomId) {
+                resolve(null);
+                return;
+            }
+            socketRef.current.timeout(5000).emit('room:create-invite', { roomId }, (err, invite) => {
+                resolve(err ? null : invite);
+            });
+        });
+    }, [roomId]);
+
+    const kickParticipant = useCallback((participantId: string) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('room:kick', { roomId, participantId });
+        }
+    }, [roomId]);
+
+    const banParticipant = useCallback((participantId: string) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('room:ban', { roomId, participantId });
         }
     }, [roomId]);
 
     // Update participant (mute, camera, etc.)
-    const updateParticipant = useCallback((updates: Partial<Participant>) => {
+    const updateParticipant = useCallback((updates: Partial<ParticipantProfile>) => {
         if (socketRef.current && roomId) {
             socketRef.current.emit('participant:update', { roomId, updates });
         }
     }, [roomId]);
 
     // Player actions
-    const sendPlayerAction = useCallback((action: 'play' | 'pause' | 'seek', videoTime: number) => {
+    const sendPlayerAction = useCallback((action: PlayerAction, videoTime: number) => {
         if (socketRef.current && roomId) {
             socketRef.current.emit('player:action', { roomId, action, videoTime });
         }
     }, [roomId]);
 
     // Queue actions
-    const addToQueue = useCallback((item: QueueItem) => {
+    // Tell the server the video ended here, so it can move on as the room's playback mode says
+    const reportEnded = useCallback((index: number, videoTime: number) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('player:ended', { roomId, index, videoTime });
+        }
+    }, [roomId]);
+
+    const addToQueue = useCallback((item: NewQueueItem) => {
         if (socketRef.current && roomId) {
             socketRef.current.emit('queue:add', { roomId, item });
         }
     }, [roomId]);
 
+    const addManyToQueue = useCallback((items: NewQueueItem[]) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('queue:add-many', { roomId, items });
+        }
+    }, [roomId]);
+
+    const setClip = useCallback((itemId: string, startAt?: number, endAt?: number) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('queue:set-clip', { roomId, itemId, startAt, endAt });
+        }
+    }, [roomId]);
+
     const removeFromQueue = useCallback((itemId: string) => {
         if (socketRef.current && roomId) {
             socketRef.current.emit('queue:remove', { roomId, itemId });
         }
     }, [roomId]);
 
+    const moveInQueue = useCallback((itemId: string, toIndex: number) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('queue:move', { roomId, itemId, toIndex });
+        }
+    }, [roomId]);
+
+    const upvoteInQueue = useCallback((itemId: string, upvote: boolean) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('queue:upvote', { roomId, itemId, upvote });
+        }
+    }, [roomId]);
+
     const changeVideo = useCallback((index: number) => {
         if (socketRef.current && roomId) {
             socketRef.current.emit('queue:change-video', { roomId, index });
         }
     }, [roomId]);
 
+    // Saved playlists
+    const savePlaylist = useCallback((name: string) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('playlist:save', { roomId, name });
+        }
+    }, [roomId]);
+
+    const loadPlaylist = useCallback((playlistId: string, mode: PlaylistLoadMode) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('playlist:load', { roomId, playlistId, mode });
+        }
+    }, [roomId]);
+
+    const deletePlaylist = useCallback((playlistId: string) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('playlist:delete', { roomId, playlistId });
+        }
+    }, [roomId]);
+
     // Chat actions
-    const sendMessage = useCallback((message: ChatMessage) => {
+    const sendMessage = useCallback((content: string) => {
         if (socketRef.current && roomId) {
-            socketRef.current.emit('chat:send', { roomId, message });
+            socketRef.current.emit('chat:send', { roomId, content });
         }
     }, [roomId]);
 
     // Vote actions
     const voteNext = useCallback(() => {
         if (socketRef.current && roomId && state.localParticipant) {
-            socketRef.current.emit('vote:next', { roomId, participantId: state.localParticipant.id });
+            socketRef.current.emit('vote:next', { roomId });
         }
     }, [roomId, state.localParticipant]);
 
+    // Room settings
+    const updateSettings = useCallback((settings: Partial<RoomSettings>) => {
+        if (socketRef.current && roomId) {
+            socketRef.current.emit('room:update-settings', { roomId, settings });
+        }
+    }, [roomId]);
+
     // Subscribe to player sync events (for YouTube player component)
-    const onPlayerSync = useCallback((callback: (data: { action: 'play' | 'pause' | 'seek'; videoTime: number; serverTime: number; initiator: string }) => void) => {
+    const onPlayerSync = useCallback((callback: (data: PlayerSync) => void) => {
         if (socketRef.current) {
             socketRef.current.on('player:sync', callback);
             return () => {
@@ -194,18 +447,43 @@ export function useSocket(roomId: string | null) {
         return () => { };
     }, []);
 
+    // Subscribe to the server's periodic playback position broadcasts
+    const onPlayerHeartbeat = useCallback((callback: (data: PlayerHeartbeat) => void) => {
+        if (socketRef.current) {
+            socketRef.current.on('player:heartbeat', callback);
+            return () => {
+                socketRef.current?.off('player:heartbeat', callback);
+            };
+        }
+        return () => { };
+    }, []);
+
     return {
         socket: socketRef.current,
         isConnected: state.isConnected,
         joinRoom,
         leaveRoom,
         updateParticipant,
+        transferHost,
+        createInvite,
+        kickParticipant,
+        banParticipant,
         sendPlayerAction,
+        reportEnded,
         addToQueue,
+        addManyToQueue,
         removeFromQueue,
+        setClip,
+        moveInQueue,
+        upvoteInQueue,
         changeVideo,
+        savePlaylist,
+        loadPlaylist,
+        deletePlaylist,
         sendMessage,
         voteNext,
+        updateSettings,
         onPlayerSync,
+        onPlayerHeartbeat,
     };
 }
@@ -0,0 +1,303 @@
+// Socket protocol shared by the server (server.ts) and the client (useSocket.ts).
+// Both sides type their socket.io instances with these event maps, so the
+// compiler flags any mismatch between what is emitted and what is handled.
+// The server imports this file with a relative path; keep it free of `@/`
+// imports and of runtime code other than plain constants.
+
+export interface Participant {
+    id: string;
+    name: string;
+    isHost: boolean;
+    isMuted: boolean;
+    isCameraOff: boolean;
+}
+
+// What a client sends when joining; the server assigns the ID and host role
+export type ParticipantProfile = Omit<Participant, 'id' | 'isHost'>;
+
+export interface QueueItem {
+    id: string;
+    videoId: string;
+    title: string;
+    thumbnail: string;
+    addedBy: string;
+    // ID of the participant who added it; unset for imported and radio videos
+    addedById?: string;
+    addedAt: number;
+    duration?: string;
+    // Seconds into the video to start and stop at, to play just a part of it
+    startAt?: number;
+    endAt?: number;
+    // Queued by the server in radio mode rather than by a participant
+    autoAdded?: boolean;
+}
+
+// Fields a client supplies when queueing a video; the server assigns the rest
+export type NewQueueItem = Omit<QueueItem, 'id' | 'addedBy' | 'addedById' | 'addedAt' | 'autoAdded'>;
+
+// A queue item as it was when the room started playing it
+export interface PlayedItem extends QueueItem {
+    playedAt: number;
+}
+
+// A queue saved under a name, to load again in a later session
+export interface SavedPlaylist {
+    id: string;
+    name: string;
+    items: QueueItem[];
+    savedBy: string;
+    savedAt: number;
+}
+
+// Load a saved playlist in place of the queue or after it
+export type PlaylistLoadMode = 'replace' | 'append';
+
+// Queue item ID -> IDs of the participants who upvoted it
+export type QueueUpvotes = Record<string, string[]>;
+
+export interface ChatMessage {
+    id: string;
+    senderId: string;
+    senderName: string;
+    content: string;
+    timestamp: number;
+    isSystem?: boolean;
+}
+
+export interface SyncSettings {
+    driftTolerance: number; // Seconds of drift ignored by the drift controller
+    seekThreshold: number; // Seconds of drift above which the player hard-seeks
+    maxRateAdjustment: number; // Max playback rate change, e.g. 0.05 for 0.95x-1.05x
+}
+
+// How upcoming videos are ordered: as added and moved, by upvotes, or taking
+// turns between the people who added them
+export type QueueOrder = 'manual' | 'votes' | 'round-robin';
+
+export interface QueueSettings {
+    order: QueueOrder;
+    // Queue policies; 0 turns a limit off
+    maxPendingPerParticipant: number; // Videos one participant may have waiting to play
+    maxDurationMinutes: number; // Longest video (or clip) that may be queued
+    duplicateWindowMinutes: number; // A video can't be queued again while waiting or this long after playing
+}
+
+// Which queue policy refused a video, with what the client needs to explain it
+export type QueuePolicyViolation =
+    | { policy: 'pending-limit'; limit: number }
+    | { policy: 'max-duration'; maxMinutes: number; title: string }
+    | { policy: 'duplicate'; title: string };
+
+// What happens when a video ends: nothing until everyone votes to skip, the
+// next video, the same video again, the queue again from the top, a random
+// upcoming video, or the next video with related ones queued as it runs dry
+export type PlaybackMode = 'manual' | 'auto-advance' | 'repeat-one' | 'repeat-queue' | 'shuffle' | 'radio';
+
+export interface PlaybackSettings {
+    mode: PlaybackMode;
+}
+
+export interface RoomSettings {
+    sync: SyncSettings;
+    queue: QueueSettings;
+    playback: PlaybackSettings;
+}
+
+// Settings of a new room; server/roomSettings.ts has the allowed ranges and options
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+    sync: {
+        driftTolerance: 0.15,
+        seekThreshold: 2,
+        maxRateAdjustment: 0.05,
+    },
+    queue: {
+        order: 'manual',
+        maxPendingPerParticipant: 0,
+        maxDurationMinutes: 0,
+        duplicateWindowMinutes: 0,
+    },
+    playback: {
+        mode: 'manual',
+    },
+};
+
+export interface JoinError {
+    reason: 'banned' | 'kicked' | 'expired' | 'password-required' | 'invalid-password' | 'invite-required' | 'invalid-invite' | 'throttled';
+    message: string;
+}
+
+// An event the server refused, e.g. an invalid payload or a host-only action
+export interface SocketError {
+    code: 'invalid-payload' | 'unknown-event' | 'not-in-room' | 'forbidden' | 'out-of-range' | 'not-found' | 'throttled' | 'muted' | 'queue-policy';
+    message: string;
+    event?: string;
+    // With 'queue-policy': the first policy broken and how many of the videos sent were left out
+    rejection?: { violation: QueuePolicyViolation; videos: number };
+}
+
+// Credentials for password-protected or invite-only rooms
+export interface JoinCredentials {
+    password?: string;
+    inviteToken?: string;
+}
+
+export interface RoomInvite {
+    token: string;
+    expiresAt: number;
+}
+
+// Playback state the server tracks; the client player has a few more
+export type PlaybackState = 'playing' | 'paused';
+
+export type PlayerAction = 'play' | 'pause' | 'seek';
+
+export interface PlayerSync {
+    action: PlayerAction;
+    videoTime: number;
+    serverTime: number;
+    initiator: string; // Socket ID, or 'system' for server-initiated changes
+}
+
+export interface PlayerHeartbeat {
+    playerState: PlaybackState;
+    videoTime: number;
+    currentVideoIndex: number;
+    serverTime: number;
+}
+
+export interface TimePong {
+    clientTime: number;
+    serverReceiveTime: number;
+    serverSendTime: number;
+}
+
+// Room state sent to a participant when they (re)join
+export interface RoomSnapshot {
+    participants: Participant[];
+    queue: QueueItem[];
+    messages: ChatMessage[];
+    votes: string[];
+    upvotes: QueueUpvotes;
+    currentVideoIndex: number;
+    playerState: PlaybackState;
+    currentTime: number;
+    settings: RoomSettings;
+    isLocked: boolean;
+    // Watch history, oldest first
+    history: PlayedItem[];
+    playlists: SavedPlaylist[];
+    // Most videos one import (queue:add-many) may add
+    importLimit: number;
+}
+
+// Room content after a restore, sent to everyone in the room
+export type RestoredRoom = Pick<RoomSnapshot, 'queue' | 'messages' | 'votes' | 'upvotes' | 'currentVideoIndex' | 'playerState' | 'currentTime'>;
+
+export type LeaveReason = 'left' | 'kicked' | 'banned' | 'timed-out';
+
+// The part of a room that is derived from its event log
+export interface RoomContent {
+    queue: QueueItem[];
+    currentVideoIndex: number;
+    playerState: PlaybackState;
+    currentTime: number;
+    playbackUpdatedAt: number;
+    messages: ChatMessage[];
+    votes: string[];
+    upvotes: QueueUpvotes;
+}
+
+export type RoomEventData =
+    | { type: 'participant-joined'; participant: Participant }
+    | { type: 'participant-left'; participantId: string; reason: LeaveReason }
+    | { type: 'queue-added'; item: QueueItem }
+    | { type: 'queue-removed'; itemId: string }
+    | { type: 'queue-moved'; itemId: string; toIndex: number }
+    | { type: 'queue-clip-changed'; itemId: string; startAt?: number; endAt?: number }
+    // The whole queue swapped for another, starting from its first video
+    | { type: 'queue-replaced'; queue: QueueItem[] }
+    // Upcoming items were put in upvote order
+    | { type: 'queue-sorted'; itemIds: string[] }
+    | { type: 'upvote-added'; itemId: string; participantId: string }
+    | { type: 'upvote-removed'; itemId: string; participantId: string }
+    | { type: 'video-changed'; index: number }
+    | { type: 'playback-changed'; playerState?: PlaybackState; videoTime: number }
+    | { type: 'chat-message'; message: ChatMessage }
+    | { type: 'vote-added'; participantId: string }
+    | { type: 'votes-cleared' }
+    // The room was put back to how it was after `eventId`
+    | { type: 'restored'; eventId: string; content: RoomContent }
+    // Stands in for the oldest events, dropped to keep the log short: the
+    // room content right after them
+    | { type: 'log-trimmed'; droppedEvents: number; content: RoomContent };
+
+// An entry in a room's event log (server/roomEvents.ts)
+export type RoomEvent = RoomEventData & {
+    id: string;
+    at: number;
+    // Participant that caused the event, or null for the server
+    by: string | null;
+};
+
+// Server events that clients receive
+export interface ServerToClientEvents {
+    'room:joined': (data: RoomSnapshot & { self: Participant; resumeToken: string }) => void;
+    'room:participant-joined': (participant: Participant) => void;
+    'room:participant-left': (participantId: string) => void;
+    'room:participant-updated': (data: { id: string; updates: Partial<Participant> }) => void;
+    'player:sync': (data: PlayerSync) => void;
+    'player:heartbeat': (data: PlayerHeartbeat) => void;
+    'queue:updated': (queue: QueueItem[]) => void;
+    'queue:video-changed': (index: number) => void;
+    // After a move; the index follows the video that was playing
+    'queue:reordered': (data: { queue: QueueItem[]; currentVideoIndex: number }) => void;
+    'queue:upvotes-updated': (upvotes: QueueUpvotes) => void;
+    'chat:message': (message: ChatMessage) => void;
+    'room:votes-updated': (votes: string[]) => void;
+    // A video started playing and was added to the watch history
+    'room:history-added': (entry: PlayedItem) => void;
+    'room:playlists-updated': (playlists: SavedPlaylist[]) => void;
+    'room:join-rejected': (data: JoinError) => void;
+    'room:kicked': (data: { reason: 'kicked' | 'banned' }) => void;
+    'room:expired': (data: { roomId: string }) => void;
+    'room:settings-updated': (settings: RoomSettings) => void;
+    'room:restored': (data: RestoredRoom) => void;
+    'error': (error: SocketError) => void;
+}
+
+// Client events that the server receives
+export interface ClientToServerEvents {
+    'room:join': (data: { roomId: string; participant: ParticipantProfile; resumeToken?: string; clientId?: string } & JoinCredentials) => void;
+    'room:leave': (data: { roomId: string }) => void;
+    'participant:update': (data: { roomId: string; updates: Partial<ParticipantProfile> }) => void;
+    'room:transfer-host': (data: { roomId: string; participantId: string }) => void;
+    'room:kick': (data: { roomId: string; participantId: string }) => void;
+    'room:ban': (data: { roomId: string; participantId: string }) => void;
+    'room:create-invite': (data: { roomId: string }, ack: (invite: RoomInvite) => void) => void;
+    'player:action': (data: { roomId: string; action: PlayerAction; videoTime: number }) => void;
+    // The video at `index` (or its clip) reached its end at `videoTime`; the
+    // server checks the end against its own playback clock
+    'player:ended': (data: { roomId: string; index: number; videoTime: number }) => void;
+    'queue:add': (data: { roomId: string; item: NewQueueItem }) => void;
+    // Several videos at once, e.g. a playlist; capped by PLAYLIST_IMPORT_LIMIT
+    'queue:add-many': (data: { roomId: string; items: NewQueueItem[] }) => void;
+    'queue:remove': (data: { roomId: string; itemId: string }) => void;
+    'queue:move': (data: { roomId: string; itemId: string; toIndex: number }) => void;
+    'queue:upvote': (data: { roomId: string; itemId: string; upvote: boolean }) => void;
+    // Save the queue under a name, replacing a playlist with the same name
+    'playlist:save': (data: { roomId: string; name: string }) => void;
+    // Replacing the queue is for the host; anyone can append
+    'playlist:load': (data: { roomId: string; playlistId: string; mode: PlaylistLoadMode }) => void;
+    // Host only
+    'playlist:delete': (data: { roomId: string; playlistId: string }) => void;
+    // Play only part of a video; a missing start or end means its natural one
+    'queue:set-clip': (data: { roomId: string; itemId: string; startAt?: number; endAt?: number }) => void;
+    'queue:change-video': (data: { roomId: string; index: number }) => void;
+    'chat:send': (data: { roomId: string; content: string }) => void;
+    'vote:next': (data: { roomId: string }) => void;
+    'room:update-settings': (data: { roomId: string; settings: Partial<RoomSettings> }) => void;
+    'room:restore': (data: { roomId: string; eventId: string }) => void;
+    'time:ping': (clientTime: number, ack: (pong: TimePong) => void) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
@@ -0,0 +1,93 @@
+// Queue operations shared by the server and the client
+
+import type { PlaybackMode, QueueItem, QueueUpvotes } from './protocol';
+
+/**
+ * Move an item so it ends up at `toIndex`, keeping `currentVideoIndex` on the
+ * video that is playing. Returns null if the item isn't in the queue.
+ */
+export function moveQueueItem(
+    queue: QueueItem[],
+    currentVideoIndex: number,
+    itemId: string,
+    toIndex: number,
+): { queue: QueueItem[]; currentVideoIndex: number } | null {
+    const from = queue.findIndex(item => item.id === itemId);
+    if (from === -1) return null;
+
+    const to = Math.max(0, Math.min(toIndex, queue.length - 1));
+    const moved = [...queue];
+    const [item] = moved.splice(from, 1);
+    moved.splice(to, 0, item);
+
+    let current = currentVideoIndex;
+    if (from === currentVideoIndex) {
+        current = to;
+    } else if (from < currentVideoIndex && to >= currentVideoIndex) {
+        current--;
+    } else if (from > currentVideoIndex && to <= currentVideoIndex) {
+        current++;
+    }
+    return { queue: moved, currentVideoIndex: current };
+}
+
+// A clip has to end after it starts; either end may be left open
+export function isValidClip({ startAt, endAt }: Pick<QueueItem, 'startAt' | 'endAt'>): boolean {
+    return startAt === undefined || endAt === undefined || endAt > startAt;
+}
+
+// Where an item has to go to play right after the current video
+export function getUpNextIndex(index: number, currentVideoIndex: number): number {
+    return index < currentVideoIndex ? currentVideoIndex : currentVideoIndex + 1;
+}
+
+/**
+ * The video to skip to from the current one, or null at the end of the queue.
+ * Only repeating the queue goes back to the top; shuffling picks which
+ * upcoming video moves up to the next position first.
+ */
+export function getNextIndex(queueLength: number, currentVideoIndex: number, mode: PlaybackMode): number | null {
+    if (currentVideoIndex < queueLength - 1) return currentVideoIndex + 1;
+    return mode === 'repeat-queue' && queueLength > 0 ? 0 : null;
+}
+
+/**
+ * Put the items after the current video in upvote order, most upvoted first
+ * and oldest first among equals. Items that played already stay put.
+ */
+export function sortByUpvotes(queue: QueueItem[], currentVideoIndex: number, upvotes: QueueUpvotes): QueueItem[] {
+    const score = (item: QueueItem) => upvotes[item.id]?.length ?? 0;
+    const upcoming = queue.slice(currentVideoIndex + 1)
+        .sort((a, b) => score(b) - score(a) || a.addedAt - b.addedAt);
+    return [...queue.slice(0, currentVideoIndex + 1), ...upcoming];
+}
+
+// Who an item counts towards for turns and limits: the participant who added
+// it, or the name it came with for imported and radio videos, since names
+// can be shared and changed
+export function getContributor(item: Pick<QueueItem, 'addedBy' | 'addedById'>): string {
+    return item.addedById ?? item.addedBy;
+}
+
+/**
+ * Give everyone who queued something one video per round after the current
+ * one. Turns go in the order of `contributors` (participant IDs), starting
+ * after whoever added the current video; contributors who aren't listed take
+ * their turns last.
+ */
+export function interleaveByContributor(queue: QueueItem[], currentVideoIndex: number, contributors: string[]): QueueItem[] {
+    const upcoming = queue.slice(currentVideoIndex + 1);
+    const turns = [...new Set([...contributors, ...upcoming.map(getContributor)])];
+    const current = queue[currentVideoIndex];
+    const start = current ? turns.indexOf(getContributor(current)) + 1 : 0;
+
+    const itemsByContributor = [...turns.slice(start), ...turns.slice(0, start)]
+        .map(contributor => upcoming.filter(item => getContributor(item) === contributor));
+    const interleaved: QueueItem[] = [];
+    for (let round = 0; interleaved.length < upcoming.length; round++) {
+        for (const items of itemsByContributor) {
+            if (round < items.length) interleaved.push(items[round]);
+        }
+    }
+    return [...queue.slice(0, currentVideoIndex + 1), ...interleaved];
+}
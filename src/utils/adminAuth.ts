@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+// Admin-only API routes are served to requests carrying ADMIN_TOKEN as a
+// bearer token; without the variable they are disabled
+export function isAdminRequest(request: Request): boolean {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) return false;
+
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(request.headers.get('authorization') || '');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
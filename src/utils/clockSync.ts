@@ -0,0 +1,43 @@
+// NTP-style clock offset estimation between this client and the socket server
+
+import type { TimePong } from '@/shared/protocol';
+
+export interface ClockSample {
+    offset: number; // Server clock minus client clock, in ms
+    rtt: number; // Round-trip time minus server processing time, in ms
+}
+
+/**
+ * Compute one offset/RTT sample from a ping/pong exchange:
+ * - t0: client send time
+ * - t1: server receive time
+ * - t2: server send time
+ * - t3: client receive time
+ */
+export function computeClockSample(pong: TimePong, clientReceiveTime: number): ClockSample {
+    const { clientTime: t0, serverReceiveTime: t1, serverSendTime: t2 } = pong;
+    const t3 = clientReceiveTime;
+
+    return {
+        offset: ((t1 - t0) + (t2 - t3)) / 2,
+        rtt: (t3 - t0) - (t2 - t1),
+    };
+}
+
+/**
+ * Combine samples into one estimate. Samples with the lowest RTT are the
+ * least affected by asymmetric network delay, so only the fastest half is
+ * averaged.
+ */
+export function estimateClock(samples: ClockSample[]): ClockSample | null {
+    if (samples.length === 0) return null;
+
+    const fastest = [...samples]
+        .sort((a, b) => a.rtt - b.rtt)
+        .slice(0, Math.max(1, Math.ceil(samples.length / 2)));
+
+    return {
+        offset: fastest.reduce((sum, s) => sum + s.offset, 0) / fastest.length,
+        rtt: fastest.reduce((sum, s) => sum + s.rtt, 0) / fastest.length,
+    };
+}
@@ -0,0 +1,34 @@
+// Playback drift correction: nudge the playback rate for small offsets and
+// only hard-seek when the player is too far off to catch up smoothly
+
+import type { SyncSettings } from '@/context/RoomContext';
+
+export type DriftCorrection =
+    | { type: 'rate'; rate: number }
+    | { type: 'seek'; time: number };
+
+/**
+ * Decide how to correct the difference between the local player position and
+ * the position the room should be at. Returns a playback rate of 1 once the
+ * player is back within tolerance.
+ */
+export function getDriftCorrection(
+    playerTime: number,
+    targetTime: number,
+    settings: SyncSettings
+): DriftCorrection {
+    const drift = targetTime - playerTime; // Positive when this client is behind
+
+    if (Math.abs(drift) > settings.seekThreshold) {
+        return { type: 'seek', time: targetTime };
+    }
+
+    if (Math.abs(drift) <= settings.driftTolerance) {
+        return { type: 'rate', rate: 1 };
+    }
+
+    // YouTube rounds to its supported rates, so use a fixed step rather than
+    // scaling the rate with the drift
+    const adjustment = Math.sign(drift) * settings.maxRateAdjustment;
+    return { type: 'rate', rate: Math.round((1 + adjustment) * 100) / 100 };
+}
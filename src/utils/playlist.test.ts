@@ -0,0 +1,59 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import YouTube from 'youtube-sr';
+import { createYouTubePlaylistResolver, getPlaylistImportLimit } from './playlist';
+import { extractPlaylistId } from './youtube';
+
+afterEach(() => mock.restoreAll());
+
+// What youtube-sr hands back for a playlist, as far as the resolver reads it
+function scrapedPlaylist(ids: (string | undefined)[], videoCount: number) {
+    return {
+        title: 'Mix',
+        videoCount,
+        videos: ids.map(id => ({ id, title: `Title ${id}`, thumbnail: undefined, durationFormatted: '3:00' })),
+    };
+}
+
+test('the import limit comes from PLAYLIST_IMPORT_LIMIT', () => {
+    const env = (limit?: string): NodeJS.ProcessEnv => ({ NODE_ENV: 'test', PLAYLIST_IMPORT_LIMIT: limit });
+    assert.equal(getPlaylistImportLimit(env()), 50);
+    assert.equal(getPlaylistImportLimit(env('20')), 20);
+    assert.equal(getPlaylistImportLimit(env('0')), 50);
+    assert.equal(getPlaylistImportLimit(env('lots')), 50);
+});
+
+test('playlist IDs are read from YouTube links only', () => {
+    assert.equal(extractPlaylistId('https://www.youtube.com/playlist?list=PLabc123'), 'PLabc123');
+    assert.equal(extractPlaylistId('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLabc123'), 'PLabc123');
+    assert.equal(extractPlaylistId('https://youtu.be/dQw4w9WgXcQ?list=PLabc123'), 'PLabc123');
+    assert.equal(extractPlaylistId('https://example.com/playlist?list=PLabc123'), null);
+    assert.equal(extractPlaylistId('https://www.youtube.com/playlist?list=bad%20id'), null);
+    assert.equal(extractPlaylistId('not a url'), null);
+});
+
+test('the resolver keeps playlist order up to the limit', async () => {
+    const ids = Array.from({ length: 8 }, (_, n) => `video${n}`);
+    mock.method(YouTube, 'getPlaylist', async () => scrapedPlaylist(ids, 120));
+    const playlist = await createYouTubePlaylistResolver().resolve('PLabc123', 5);
+
+    assert.ok(playlist);
+    assert.deepEqual(playlist.videos.map(video => video.videoId), ids.slice(0, 5));
+    assert.equal(playlist.total, 120);
+    assert.equal(playlist.videos[0].thumbnail, 'https://img.youtube.com/vi/video0/mqdefault.jpg');
+});
+
+test('private and deleted videos are left out', async () => {
+    mock.method(YouTube, 'getPlaylist', async () => scrapedPlaylist(['video0', undefined, 'video2'], 3));
+    const playlist = await createYouTubePlaylistResolver().resolve('PLabc123', 5);
+
+    assert.deepEqual(playlist?.videos.map(video => video.videoId), ['video0', 'video2']);
+});
+
+test('a playlist that can\'t be found resolves to null', async () => {
+    mock.method(YouTube, 'getPlaylist', async () => {
+        throw new Error('Not found');
+    });
+    mock.method(console, 'error', () => { });
+    assert.equal(await createYouTubePlaylistResolver().resolve('PLmissing', 5), null);
+});
@@ -0,0 +1,70 @@
+// Playlist lookup for importing a whole playlist into the queue.
+// The API route only talks to the `PlaylistResolver` interface, so tests can
+// swap in a stub with `setPlaylistResolver`.
+
+import YouTube from 'youtube-sr';
+// Relative import: server.ts type-checks against this file too
+import type { NewQueueItem } from '../shared/protocol';
+
+export interface ResolvedPlaylist {
+    playlistId: string;
+    title: string;
+    // At most `limit` videos, in playlist order
+    videos: NewQueueItem[];
+    // Videos in the whole playlist, which may be more than were returned
+    total: number;
+}
+
+export interface PlaylistResolver {
+    // Null if there is no such playlist
+    resolve(playlistId: string, limit: number): Promise<ResolvedPlaylist | null>;
+}
+
+const DEFAULT_IMPORT_LIMIT = 50;
+
+// Most videos a single import may add, from PLAYLIST_IMPORT_LIMIT
+export function getPlaylistImportLimit(env: NodeJS.ProcessEnv = process.env): number {
+    const limit = parseInt(env.PLAYLIST_IMPORT_LIMIT || '', 10);
+    return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_IMPORT_LIMIT;
+}
+
+// Resolver that scrapes the playlist page with youtube-sr, like the search route
+export function createYouTubePlaylistResolver(): PlaylistResolver {
+    return {
+        resolve: async (playlistId, limit) => {
+            try {
+                const playlist = await YouTube.getPlaylist(`https://www.youtube.com/playlist?list=${playlistId}`, { limit });
+                // Private and deleted videos come back without an ID
+                const videos = playlist.videos
+                    .filter(video => video.id)
+                    .slice(0, limit)
+                    .map(video => ({
+                        videoId: video.id!,
+                        // Queue items accept titles up to 200 characters
+                        title: (video.title || 'YouTube Video').slice(0, 200),
+                        thumbnail: video.thumbnail?.url || `https://img.youtube.com/vi/${video.id}/mqdefault.jpg`,
+                        duration: video.durationFormatted || undefined,
+                    }));
+                return {
+                    playlistId,
+                    title: playlist.title || 'YouTube Playlist',
+                    videos,
+                    total: Math.max(playlist.videoCount || 0, videos.length),
+                };
+            } catch (error) {
+                console.error(`Failed to resolve playlist ${playlistId}:`, error);
+                return null;
+            }
+        },
+    };
+}
+
+let resolver: PlaylistResolver = createYouTubePlaylistResolver();
+
+export function getPlaylistResolver(): PlaylistResolver {
+    return resolver;
+}
+
+export function setPlaylistResolver(replacement: PlaylistResolver): void {
+    resolver = replacement;
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QueueItem } from '../shared/protocol';
+import { exportQueue, readQueueFile } from './queueFile';
+
+function item(videoId: string, fields: Partial<QueueItem> = {}): QueueItem {
+    return { id: videoId, videoId, title: `Title ${videoId}`, thumbnail: 'https://i.ytimg.com/vi/x/mqdefault.jpg', addedBy: 'someone', addedAt: 1, ...fields };
+}
+
+const videoId = (n: number) => `video${String(n).padStart(6, '0')}`;
+
+// Title lookups go to oEmbed; answer them here and count them
+let lookups: number;
+beforeEach(() => {
+    lookups = 0;
+    mock.method(globalThis, 'fetch', async (url: string) => {
+        lookups++;
+        const id = new URL(new URL(url).searchParams.get('url')!).searchParams.get('v');
+        return new Response(JSON.stringify({ title: `Looked up ${id}` }));
+    });
+});
+afterEach(() => mock.restoreAll());
+
+test('a JSON export reads back with its clips and who added what', async () => {
+    const queue = [item(videoId(1), { startAt: 10, endAt: 20 }), item(videoId(2))];
+    const { items, skipped, overLimit } = await readQueueFile(exportQueue(queue, 'json'));
+
+    assert.equal(skipped, 0);
+    assert.equal(overLimit, 0);
+    assert.deepEqual(items.map(entry => [entry.videoId, entry.startAt, entry.endAt, entry.addedBy]), [
+        [videoId(1), 10, 20, 'someone'],
+        [videoId(2), undefined, undefined, 'someone'],
+    ]);
+    assert.equal(lookups, 0);
+});
+
+test('malformed JSON items are skipped and broken clips dropped', async () => {
+    const text = JSON.stringify({
+        items: [null, 'nope', { videoId: 'not a video!' }, { videoId: videoId(1), startAt: 30, endAt: 10 }],
+    });
+    const { items, skipped } = await readQueueFile(text);
+
+    assert.equal(skipped, 3);
+    assert.equal(items.length, 1);
+    assert.equal(items[0].startAt, undefined);
+    assert.equal(items[0].endAt, undefined);
+});
+
+test('a URL list is looked up and keeps clip ranges', async () => {
+    const text = `# exported\nhttps://www.youtube.com/watch?v=${videoId(1)}&t=5&end=15\n\nnot a url\nhttps://youtu.be/${videoId(2)}\n`;
+    const { items, skipped } = await readQueueFile(text);
+
+    assert.equal(skipped, 1);
+    assert.deepEqual(items.map(entry => [entry.videoId, entry.title, entry.startAt, entry.endAt]), [
+        [videoId(1), `Looked up ${videoId(1)}`, 5, 15],
+        [videoId(2), `Looked up ${videoId(2)}`, undefined, undefined],
+    ]);
+});
+
+test('imports are capped at the limit asked for', async () => {
+    const queue = Array.from({ length: 60 }, (_, n) => item(videoId(n)));
+    const json = await readQueueFile(exportQueue(queue, 'json'), 50);
+    assert.equal(json.items.length, 50);
+    assert.equal(json.overLimit, 10);
+
+    // Only the videos that fit are looked up
+    const urls = await readQueueFile(exportQueue(queue, 'urls'), 50);
+    assert.equal(urls.items.length, 50);
+    assert.equal(urls.overLimit, 10);
+    assert.equal(lookups, 50);
+});
+
+test('a limit above the file maximum is held to it', async () => {
+    const queue = Array.from({ length: 510 }, (_, n) => item(videoId(n)));
+    const { items, overLimit } = await readQueueFile(exportQueue(queue, 'json'), 1000);
+    assert.equal(items.length, 500);
+    assert.equal(overLimit, 10);
+});
@@ -0,0 +1,143 @@
+// Portable queue files, to carry a queue from one room to another: a JSON
+// export with every item's metadata, or a plain list of video URLs.
+
+// Relative imports: server.ts type-checks against this file too
+import type { NewQueueItem, QueueItem } from '../shared/protocol';
+import { isValidClip } from '../shared/queue';
+import { extractClipRange, extractVideoId, getThumbnailUrl, getVideoInfo } from './youtube';
+
+export type QueueFileFormat = 'json' | 'urls';
+
+export interface QueueFile {
+    version: 1;
+    exportedAt: number;
+    items: QueueItem[];
+}
+
+// An imported item; JSON exports also say who added it in the original room
+export type ImportedQueueItem = NewQueueItem & { addedBy?: string };
+
+// What was read from a queue file
+export interface ImportedQueueFile {
+    items: ImportedQueueItem[];
+    // Lines or items that aren't YouTube videos
+    skipped: number;
+    // Videos left out past the limit asked for
+    overLimit: number;
+}
+
+// Most videos read from one file, unless the caller asks for fewer
+const MAX_FILE_ITEMS = 500;
+const MAX_VIDEO_TIME = 7 * 24 * 60 * 60;
+// Title lookups for a URL list that run at once
+const LOOKUP_CONCURRENCY = 5;
+
+// Watch URL for an item, with the clip as `t=` and `end=`
+export function getVideoUrl({ videoId, startAt, endAt }: Pick<QueueItem, 'videoId' | 'startAt' | 'endAt'>): string {
+    const url = new URL('https://www.youtube.com/watch');
+    url.searchParams.set('v', videoId);
+    if (startAt !== undefined) url.searchParams.set('t', String(startAt));
+    if (endAt !== undefined) url.searchParams.set('end', String(endAt));
+    return url.toString();
+}
+
+export function exportQueue(queue: QueueItem[], format: QueueFileFormat, now = Date.now()): string {
+    if (format === 'urls') {
+        return queue.map(getVideoUrl).join('\n') + '\n';
+    }
+    const file: QueueFile = { version: 1, exportedAt: now, items: queue };
+    return JSON.stringify(file, null, 2);
+}
+
+function optionalString(value: unknown, max: number): string | undefined {
+    return typeof value === 'string' && value.length > 0 && value.length <= max ? value : undefined;
+}
+
+function optionalTime(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_VIDEO_TIME ? value : undefined;
+}
+
+// One item of a JSON export; null if it has no usable video
+function readJsonItem(entry: unknown): ImportedQueueItem | null {
+    if (!entry || typeof entry !== 'object') return null;
+    const fields = entry as Record<string, unknown>;
+
+    const videoId = extractVideoId(String(fields.videoId ?? fields.url ?? ''));
+    if (!videoId) return null;
+
+    const clip = { startAt: optionalTime(fields.startAt), endAt: optionalTime(fields.endAt) };
+    const thumbnail = optionalString(fields.thumbnail, 500);
+    return {
+        videoId,
+        title: optionalString(fields.title, 200) || 'YouTube Video',
+        thumbnail: thumbnail?.startsWith('https://') ? thumbnail : getThumbnailUrl(videoId, 'medium'),
+        duration: optionalString(fields.duration, 20),
+        // A clip that ends before it starts is dropped rather than the video
+        ...(isValidClip(clip) ? clip : {}),
+        addedBy: optionalString(fields.addedBy, 50),
+    };
+}
+
+// `map` over `values` with at most `concurrency` calls running at once,
+// keeping the order of `values`
+async function mapWithConcurrency<T, R>(values: T[], concurrency: number, map: (value: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(values.length);
+    let next = 0;
+    const work = async () => {
+        while (next < values.length) {
+            const index = next++;
+            results[index] = await map(values[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, values.length) }, work));
+    return results;
+}
+
+/**
+ * Read a queue file in either format, up to `limit` videos. URL lists only hold video IDs, so
+ * their titles are looked up; anything that isn't a YouTube video is
+ * counted as skipped.
+ */
+export async function readQueueFile(
+    text: string,
+    limit = MAX_FILE_ITEMS,
+): Promise<ImportedQueueFile> {
+    const trimmed = text.trim();
+    const max = Math.min(limit, MAX_FILE_ITEMS);
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(trimmed);
+        } catch {
+            return { items: [], skipped: 1, overLimit: 0 };
+        }
+        const entries = Array.isArray(data) ? data : (data as { items?: unknown } | null)?.items;
+        if (!Array.isArray(entries)) return { items: [], skipped: 1, overLimit: 0 };
+
+        const valid = entries.map(readJsonItem).filter((item): item is ImportedQueueItem => item !== null);
+        return {
+            items: valid.slice(0, max),
+            skipped: entries.length - valid.length,
+            overLimit: Math.max(0, valid.length - max),
+        };
+    }
+
+    // Blank lines and # comments are left out
+    const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    const videos = lines
+        .map(line => ({ line, videoId: extractVideoId(line) }))
+        .filter((video): video is { line: string; videoId: string } => video.videoId !== null);
+
+    // Only the videos that will be imported are looked up
+    const items = await mapWithConcurrency(videos.slice(0, max), LOOKUP_CONCURRENCY, async ({ line, videoId }) => {
+        const info = await getVideoInfo(videoId);
+        return {
+            videoId,
+            title: (info?.title || 'YouTube Video').slice(0, 200),
+            thumbnail: getThumbnailUrl(videoId, 'medium'),
+            ...extractClipRange(line),
+        };
+    });
+    return { items, skipped: lines.length - videos.length, overLimit: Math.max(0, videos.length - max) };
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NewQueueItem } from '../shared/protocol';
+import { createStubRecommendationSource, pickRecommendations } from './recommendations';
+
+function video(videoId: string): NewQueueItem {
+    return { videoId, title: videoId, thumbnail: '' };
+}
+
+const results = (...lists: string[][]) => lists.map(list => list.map(video));
+const ids = (videos: NewQueueItem[]) => videos.map(entry => entry.videoId);
+
+test('takes turns between the result lists', () => {
+    const picked = pickRecommendations(results(['a1', 'a2', 'a3'], ['b1', 'b2'], ['c1']), 10, new Set());
+    assert.deepEqual(ids(picked), ['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+});
+
+test('stops at the limit', () => {
+    const picked = pickRecommendations(results(['a1', 'a2'], ['b1', 'b2']), 3, new Set());
+    assert.deepEqual(ids(picked), ['a1', 'b1', 'a2']);
+});
+
+test('leaves out excluded videos and repeats', () => {
+    const picked = pickRecommendations(results(['a1', 'shared', 'a2'], ['played', 'shared', 'b1']), 10, new Set(['played']));
+    assert.deepEqual(ids(picked), ['a1', 'shared', 'a2', 'b1']);
+});
+
+test('gives nothing without results', () => {
+    assert.deepEqual(pickRecommendations([], 5, new Set()), []);
+    assert.deepEqual(pickRecommendations([[], []], 5, new Set()), []);
+});
+
+test('the stub source gives the same videos for the same seeds', async () => {
+    const source = createStubRecommendationSource();
+    const seeds = [{ videoId: 'seed0000001', title: 'One' }, { videoId: 'seed0000002', title: 'Two' }];
+    const first = await source.recommend(seeds, 5, new Set());
+    const second = await source.recommend(seeds, 5, new Set([first[0].videoId]));
+
+    assert.equal(first.length, 5);
+    assert.deepEqual(ids(second), [...ids(first).slice(1), ids(second)[4]]);
+    assert.deepEqual(await source.recommend([], 5, new Set()), []);
+});
@@ -0,0 +1,113 @@
+// Video recommendations for radio mode, which keeps the queue going with
+// videos related to what a room played last. The server only talks to the
+// `RecommendationSource` interface; RECOMMENDATION_SOURCE=stub selects a
+// local source that needs no network, and tests can swap in their own with
+// `setRecommendationSource`.
+
+import YouTube from 'youtube-sr';
+// Relative imports: server.ts type-checks against this file too
+import type { NewQueueItem, QueueItem } from '../shared/protocol';
+import { getThumbnailUrl } from './youtube';
+
+// A video to base recommendations on
+export type RecommendationSeed = Pick<QueueItem, 'videoId' | 'title'>;
+
+export interface RecommendationSource {
+    // Up to `limit` videos related to `seeds` (most recent last), leaving out
+    // the video IDs in `exclude`
+    recommend(seeds: RecommendationSeed[], limit: number, exclude: Set<string>): Promise<NewQueueItem[]>;
+}
+
+// Search results to look through per recommendation asked for, as some are
+// usually excluded
+const SEARCH_FACTOR = 3;
+
+/**
+ * Up to `limit` videos from several ranked result lists, taking turns between
+ * the lists: every list's first result, then every list's second, and so on.
+ * Videos in `exclude` and repeats are left out.
+ */
+export function pickRecommendations(results: NewQueueItem[][], limit: number, exclude: Set<string>): NewQueueItem[] {
+    const picked: NewQueueItem[] = [];
+    const seen = new Set(exclude);
+    for (let rank = 0; picked.length < limit && results.some(videos => rank < videos.length); rank++) {
+        for (const videos of results) {
+            const video = videos[rank];
+            if (!video || seen.has(video.videoId) || picked.length >= limit) continue;
+            seen.add(video.videoId);
+            picked.push(video);
+        }
+    }
+    return picked;
+}
+
+// Searches for each seed's title through youtube-sr, like the search route,
+// and takes turns between the results, starting with the most recent seed's
+export function createYouTubeRecommendationSource(): RecommendationSource {
+    async function search(seed: RecommendationSeed, limit: number): Promise<NewQueueItem[]> {
+        try {
+            const results = await YouTube.search(seed.title, {
+                limit: limit * SEARCH_FACTOR,
+                type: 'video',
+                safeSearch: false,
+            });
+            return results
+                .filter(video => video.id)
+                .map(video => ({
+                    videoId: video.id!,
+                    // Queue items accept titles up to 200 characters
+                    title: (video.title || 'YouTube Video').slice(0, 200),
+                    thumbnail: video.thumbnail?.url || getThumbnailUrl(video.id!, 'medium'),
+                    duration: video.durationFormatted || undefined,
+                }));
+        } catch (error) {
+            console.error(`Failed to find videos related to ${seed.videoId}:`, error);
+            return [];
+        }
+    }
+
+    return {
+        recommend: async (seeds, limit, exclude) => {
+            const results = await Promise.all([...seeds].reverse().map(seed => search(seed, limit)));
+            return pickRecommendations(results, limit, exclude);
+        },
+    };
+}
+
+const STUB_CATALOGUE_SIZE = 20;
+
+/**
+ * Offline source that recommends from a fixed catalogue of made-up videos.
+ * The same seeds always give the same videos: the catalogue is walked from a
+ * position derived from all the seeds' IDs.
+ */
+export function createStubRecommendationSource(): RecommendationSource {
+    const catalogue = Array.from({ length: STUB_CATALOGUE_SIZE }, (_, index) => {
+        const number = String(index + 1).padStart(2, '0');
+        const videoId = `radioStub${number}`;
+        return { videoId, title: `Radio stub ${number}`, thumbnail: getThumbnailUrl(videoId, 'medium'), duration: '3:00' };
+    });
+
+    return {
+        recommend: async (seeds, limit, exclude) => {
+            if (seeds.length === 0) return [];
+            const ids = seeds.map(seed => seed.videoId).join('');
+            const start = [...ids].reduce((sum, char) => sum + char.charCodeAt(0), 0) % catalogue.length;
+            return [...catalogue.slice(start), ...catalogue.slice(0, start)]
+                .filter(video => !exclude.has(video.videoId))
+                .slice(0, limit);
+        },
+    };
+}
+
+let source: RecommendationSource = process.env.RECOMMENDATION_SOURCE === 'stub'
+    ? createStubRecommendationSource()
+    : createYouTubeRecommendationSource();
+
+export function getRecommendationSource(): RecommendationSource {
+    return source;
+}
+
+export function setRecommendationSource(replacement: RecommendationSource): void {
+    source = replacement;
+}
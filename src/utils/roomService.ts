@@ -0,0 +1,53 @@
+// Access to the socket server's rooms from API routes.
+// The custom server (server.ts) registers the service on globalThis; it is
+// missing when the app runs under plain `next dev`.
+
+// Relative imports: server.ts type-checks against this file too
+import type { PlayedItem, QueueItem, QueuePolicyViolation, RoomContent, RoomEvent, RoomInvite } from '../shared/protocol';
+import type { ImportedQueueItem } from './queueFile';
+
+export interface CreateRoomOptions {
+    password?: string;
+    inviteOnly?: boolean;
+    inviteCount?: number;
+    inviteTtlMs?: number;
+}
+
+export interface RoomInfo {
+    roomId: string;
+    participantCount: number;
+    currentVideo: { videoId: string; title: string; thumbnail: string } | null;
+    queueLength: number;
+    createdAt: number;
+    lastActiveAt: number;
+    isLocked: boolean;
+}
+
+// A room's event log, with its content right after `untilId` if one was given
+export interface RoomHistory {
+    events: RoomEvent[];
+    content?: RoomContent;
+}
+
+export interface RoomService {
+    createRoom: (roomId: string, options?: CreateRoomOptions) => Promise<{ invites: RoomInvite[]; isLocked: boolean }>;
+    getRoomInfo: (roomId: string) => RoomInfo | null;
+    getExpiredAt: (roomId: string) => number | null;
+    // Videos the room played, oldest first; null if the room doesn't exist
+    getWatchHistory: (roomId: string) => PlayedItem[] | null;
+    getQueue: (roomId: string) => QueueItem[] | null;
+    // Add items to the end of the queue within the room's queue policies,
+    // with the first refusal if any were left out; an error message if that
+    // isn't possible at all
+    importQueue: (roomId: string, items: ImportedQueueItem[]) => Promise<
+        | { added: number; rejection?: { message: string; violation: QueuePolicyViolation; videos: number } }
+        | { error: string; status: number }
+    >;
+    // Null if the room doesn't exist or `untilId` isn't in its log
+    getRoomHistory: (roomId: string, untilId?: string) => Promise<RoomHistory | null>;
+    getStats: () => { activeRooms: number; participants: number; evictedRooms: number };
+}
+
+export function getRoomService(): RoomService | null {
+    return (globalThis as { hangoutRooms?: RoomService }).hangoutRooms ?? null;
+}
@@ -0,0 +1,52 @@
+// Room sessions stored client-side so a refresh can resume the same participant
+
+export interface StoredSession {
+    name: string;
+    resumeToken: string;
+}
+
+const storageKey = (roomId: string) => `hangout:session:${roomId}`;
+
+export function loadSession(roomId: string): StoredSession | null {
+    if (typeof window === 'undefined') return null;
+    try {
+        const raw = window.localStorage.getItem(storageKey(roomId));
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(roomId: string, session: StoredSession): void {
+    try {
+        window.localStorage.setItem(storageKey(roomId), JSON.stringify(session));
+    } catch {
+        // Storage may be unavailable (private mode); resuming just won't work
+    }
+}
+
+export function clearSession(roomId: string): void {
+    try {
+        window.localStorage.removeItem(storageKey(roomId));
+    } catch {
+        // Ignore, see saveSession
+    }
+}
+
+/**
+ * Stable per-browser ID sent on every join, so hosts can ban a person rather
+ * than a single participant slot
+ */
+export function getClientId(): string {
+    const key = 'hangout:client-id';
+    try {
+        let clientId = window.localStorage.getItem(key);
+        if (!clientId) {
+            clientId = crypto.randomUUID();
+            window.localStorage.setItem(key, clientId);
+        }
+        return clientId;
+    } catch {
+        return crypto.randomUUID();
+    }
+}
@@ -48,6 +48,73 @@ export function extractVideoId(url: string): string | null {
     return null;
 }
 
+/**
+ * Extract the playlist ID from a URL with a `list=` parameter:
+ * - https://www.youtube.com/playlist?list=PLAYLIST_ID
+ * - https://www.youtube.com/watch?v=VIDEO_ID&list=PLAYLIST_ID
+ * - https://youtu.be/VIDEO_ID?list=PLAYLIST_ID
+ */
+export function extractPlaylistId(url: string): string | null {
+    if (!url) return null;
+
+    try {
+        const urlObj = new URL(url);
+        if (!urlObj.hostname.includes('youtube.com') && urlObj.hostname !== 'youtu.be') return null;
+
+        const playlistId = urlObj.searchParams.get('list');
+        return playlistId && /^[a-zA-Z0-9_-]{2,64}$/.test(playlistId) ? playlistId : null;
+    } catch {
+        // Not a valid URL
+        return null;
+    }
+}
+
+/**
+ * Parse a timestamp into seconds. Accepts plain seconds ("90"), YouTube's
+ * `t=` style ("1m30s", "1h2m3s") and clock style ("1:30", "1:02:03").
+ */
+export function parseTimestamp(value: string): number | null {
+    const text = value.trim();
+
+    if (/^\d+(\.\d+)?s?$/.test(text)) {
+        return parseFloat(text);
+    }
+
+    const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (units && text) {
+        const [, hours = '0', minutes = '0', seconds = '0'] = units;
+        return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+    }
+
+    if (/^\d+(:[0-5]?\d){1,2}$/.test(text)) {
+        return text.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+    }
+
+    return null;
+}
+
+/**
+ * Extract the part of the video a URL points at from its `t=`, `start=` and
+ * `end=` parameters, in seconds. Empty if the URL has none.
+ */
+export function extractClipRange(url: string): { startAt?: number; endAt?: number } {
+    try {
+        const params = new URL(url).searchParams;
+        const start = params.get('t') ?? params.get('start');
+        const end = params.get('end');
+
+        const startAt = start ? parseTimestamp(start) : null;
+        const endAt = end ? parseTimestamp(end) : null;
+        return {
+            ...(startAt ? { startAt } : {}),
+            ...(endAt && endAt > (startAt ?? 0) ? { endAt } : {}),
+        };
+    } catch {
+        // Not a valid URL, e.g. a bare video ID
+        return {};
+    }
+}
+
 /**
  * Validate if a string is a valid YouTube video ID or URL
  */
@@ -81,7 +148,7 @@ export async function getVideoInfo(videoId: string): Promise<YouTubeVideoInfo |
             return null;
         }
 
-        const data = await response.json();
+        const data = await response.json() as { title?: string };
         return {
             videoId,
             title: data.title || 'Unknown Title',